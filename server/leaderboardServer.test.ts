@@ -0,0 +1,66 @@
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSubmission } from '../src/scoreSubmission';
+import { playRecordedGame } from '../src/testFixtures';
+import { createLeaderboardServer } from './leaderboardServer';
+import { ScoreStore } from './scoreStore';
+
+let close: (() => void) | null = null;
+
+afterEach(() => {
+  close?.();
+  close = null;
+});
+
+async function startServer() {
+  const server = createLeaderboardServer(new ScoreStore());
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  close = () => server.close();
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function finishedGame(seed: number) {
+  const h = playRecordedGame(seed, 100000, { boardWidth: 6, boardHeight: 10, difficulty: 'insane' });
+  return createSubmission(h.game.leaderboardEntry('ann'), h.game.getReplayLog()!);
+}
+
+// GET a leaderboard and return its entries
+const entries = async (base: string, query: string): Promise<any[]> => ((await (await fetch(`${base}/api/leaderboard?${query}`)).json()) as any).entries;
+
+const post = (base: string, body: unknown) =>
+  fetch(`${base}/api/scores`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('leaderboard server', () => {
+  it('stores verified scores and serves them by mode, difficulty and day', async () => {
+    const base = await startServer();
+    const sub = finishedGame(3);
+    const res = await post(base, sub);
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ rank: 0 });
+    // the same game again is a duplicate
+    expect((await post(base, sub)).status).toBe(409);
+
+    const all = await entries(base, 'mode=classic&difficulty=insane');
+    expect(all).toMatchObject([{ name: 'ann', score: sub.score, difficulty: 'insane', width: 6, height: 10 }]);
+    expect(all[0].log).toBeUndefined();
+    const today = new Date().toISOString().slice(0, 10);
+    expect(await entries(base, `mode=classic&difficulty=insane&day=${today}`)).toHaveLength(1);
+    expect(await entries(base, 'mode=classic&difficulty=insane&day=2000-01-01')).toEqual([]);
+    expect(await entries(base, 'mode=bag&difficulty=insane')).toEqual([]);
+    // easier games have boards of their own
+    expect(await entries(base, 'mode=classic')).toEqual([]);
+  });
+
+  it('rejects fabricated and malformed submissions', async () => {
+    const base = await startServer();
+    const sub = finishedGame(2);
+    const forged = { ...sub, score: sub.score + 50, log: { ...sub.log, score: sub.score + 50 } };
+    const res = await post(base, forged);
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ error: 'replayed score does not match' });
+    expect((await post(base, { name: 'x' })).status).toBe(400);
+    expect((await fetch(`${base}/api/leaderboard?mode=nope`)).status).toBe(400);
+    expect((await fetch(`${base}/api/leaderboard?mode=classic&difficulty=nope`)).status).toBe(400);
+    expect((await fetch(`${base}/nothing`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,107 @@
+// leaderboardServer.ts
+// HTTP API of the optional leaderboard server:
+//   POST /api/scores                              submit a score (ScoreSubmission JSON)
+//   GET  /api/leaderboard?mode=classic[&difficulty=normal][&day=YYYY-MM-DD][&limit=10]
+// Every submission is replayed through the headless game before it is stored.
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { LEADERBOARD_SIZE } from '../src/leaderboard';
+import { DEFAULT_DIFFICULTY_ID, DIFFICULTIES } from '../src/difficulty';
+import { GAME_MODES } from '../src/modes';
+import { parseSubmission, verifySubmission } from '../src/scoreSubmission';
+import type { ScoreStore } from './scoreStore';
+
+// Largest request body accepted (a long game's action log is well below this)
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_LIMIT = 100;
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // the game is served from a different origin (vite dev server, static host)
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === null ? '' : JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'submission too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function handleSubmit(req: IncomingMessage, res: ServerResponse, store: ScoreStore) {
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (e) {
+    if (e instanceof HttpError) throw e;
+    throw new HttpError(400, 'body is not JSON');
+  }
+  const sub = parseSubmission(body);
+  if (!sub) throw new HttpError(400, 'not a score submission');
+  if (store.has(sub)) throw new HttpError(409, 'score already submitted');
+  const result = verifySubmission(sub);
+  if (!result.ok) throw new HttpError(422, result.reason);
+  const { log: _log, ...entry } = sub;
+  const rank = store.add(entry);
+  send(res, 201, { rank });
+}
+
+function handleLeaderboard(url: URL, res: ServerResponse, store: ScoreStore) {
+  const mode = url.searchParams.get('mode') ?? GAME_MODES[0].id;
+  if (!GAME_MODES.some((m) => m.id === mode)) throw new HttpError(400, 'unknown mode');
+  const difficulty = url.searchParams.get('difficulty') ?? DEFAULT_DIFFICULTY_ID;
+  if (!DIFFICULTIES.some((d) => d.id === difficulty)) throw new HttpError(400, 'unknown difficulty');
+  const day = url.searchParams.get('day');
+  if (day !== null && !/^\d{4}-\d{2}-\d{2}$/.test(day)) throw new HttpError(400, 'day must be YYYY-MM-DD');
+  const limit = Math.max(1, Math.min(MAX_LIMIT, Number(url.searchParams.get('limit')) || LEADERBOARD_SIZE));
+  send(res, 200, { mode, difficulty, day, entries: store.top(mode, difficulty, day, limit) });
+}
+
+export function createLeaderboardServer(store: ScoreStore): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+      if (req.method === 'OPTIONS') {
+        send(res, 204, null);
+      } else if (req.method === 'POST' && url.pathname === '/api/scores') {
+        await handleSubmit(req, res, store);
+      } else if (req.method === 'GET' && url.pathname === '/api/leaderboard') {
+        handleLeaderboard(url, res, store);
+      } else {
+        throw new HttpError(404, 'not found');
+      }
+    } catch (e) {
+      if (e instanceof HttpError) {
+        send(res, e.status, { error: e.message });
+      } else {
+        console.error('Leaderboard request failed', e);
+        send(res, 500, { error: 'internal error' });
+      }
+    }
+  });
+}
@@ -0,0 +1,12 @@
+// main.ts
+// Starts the local leaderboard server: npm run server
+// Environment: PORT (default 8787), SCORES_FILE (default leaderboard-scores.json)
+import { createLeaderboardServer } from './leaderboardServer';
+import { ScoreStore } from './scoreStore';
+
+const port = Number(process.env.PORT) || 8787;
+const file = process.env.SCORES_FILE || 'leaderboard-scores.json';
+
+createLeaderboardServer(new ScoreStore(file)).listen(port, () => {
+  console.log(`Leaderboard server on http://localhost:${port} (scores in ${file})`);
+});
@@ -0,0 +1,63 @@
+// scoreStore.ts
+// Accepted scores of the leaderboard server, kept in a JSON file.
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { DEFAULT_DIFFICULTY_ID } from '../src/difficulty';
+import type { LeaderboardEntry } from '../src/leaderboard';
+
+export type StoredScore = LeaderboardEntry & {
+  // UTC day (YYYY-MM-DD) the server accepted the score; daily boards use it
+  day: string;
+};
+
+export function dayOf(time: Date): string {
+  return time.toISOString().slice(0, 10);
+}
+
+export class ScoreStore {
+  private file: string | null;
+  private scores: StoredScore[] = [];
+
+  // Without a file the store only lives in memory (tests)
+  constructor(file: string | null = null) {
+    this.file = file;
+    if (file && existsSync(file)) {
+      try {
+        const data = JSON.parse(readFileSync(file, 'utf8'));
+        if (Array.isArray(data)) this.scores = data;
+      } catch (e) {
+        console.error(`Ignoring unreadable score file ${file}`);
+      }
+    }
+  }
+
+  // Same game submitted twice (e.g. a retry after a lost response)
+  has(entry: LeaderboardEntry): boolean {
+    return this.scores.some((s) => s.seed === entry.seed && s.date === entry.date && s.name === entry.name);
+  }
+
+  // Store a verified score. Returns its rank on the all-time board of its
+  // mode and difficulty.
+  add(entry: LeaderboardEntry, now = new Date()): number {
+    const stored: StoredScore = { ...entry, day: dayOf(now) };
+    this.scores.push(stored);
+    this.save();
+    return this.top(entry.mode, entry.difficulty, null, Infinity).indexOf(stored);
+  }
+
+  // Best scores of a mode at one difficulty, optionally only those accepted
+  // on one day (scores stored before difficulties count as the default one)
+  top(mode: string, difficulty: string, day: string | null, limit: number): StoredScore[] {
+    return this.scores
+      .filter((s) => s.mode === mode && (s.difficulty ?? DEFAULT_DIFFICULTY_ID) === difficulty && (day === null || s.day === day))
+      .sort((a, b) => b.score - a.score || a.date.localeCompare(b.date))
+      .slice(0, limit);
+  }
+
+  private save() {
+    if (!this.file) return;
+    // write then rename so a crash never leaves half a file behind
+    const tmp = `${this.file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(this.scores));
+    renameSync(tmp, this.file);
+  }
+}
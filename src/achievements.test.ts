@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AchievementTracker } from './achievements';
+import type { GameEvent } from './gameEvents';
+import { createHeadlessGame, MemoryStorage } from './headless';
+import { setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const REMOVAL_INTERVAL = 150;
+
+const started: GameEvent = { type: 'gameStarted', mode: 'classic', width: 10, height: 20, seed: 1 };
+const placed: GameEvent = { type: 'piecePlaced', shapeIndex: 1, x: 0, y: 0, auto: false };
+const cleared: GameEvent = { type: 'boardCleared', bonus: 10 };
+const over: GameEvent = { type: 'gameOver', score: 0, duration: 1000, level: 1, loopsClosed: 0 };
+
+// Tracker that records the ids it unlocks
+function tracker(storage = new MemoryStorage()) {
+  const t = new AchievementTracker(storage);
+  const unlocks: string[] = [];
+  t.onUnlock = (a) => unlocks.push(a.id);
+  return { t, unlocks, storage };
+}
+
+describe('AchievementTracker', () => {
+  it('unlocks loop and board clear badges from a real game', () => {
+    const h = createHeadlessGame({ seed: 1, start: false });
+    const { t, unlocks } = tracker(h.storage);
+    h.game.onEvent((e) => t.handle(e));
+    h.game.start({ seed: 1 });
+    // a Honeynut Loop on an empty board closes a loop and empties the board
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    expect(unlocks).toEqual(['first-loop', 'double', 'honeynut']);
+    expect(t.isUnlocked('big-loop')).toBe(false);
+  });
+
+  it('counts per-game goals within one game only', () => {
+    const { t, unlocks } = tracker();
+    t.handle(started);
+    t.handle(cleared);
+    t.handle(cleared);
+    t.handle(over);
+    t.handle(started);
+    t.handle(cleared);
+    expect(unlocks).toEqual(['double']);
+    t.handle(cleared);
+    t.handle(cleared);
+    expect(unlocks).toEqual(['double', 'triple-double']);
+  });
+
+  it('needs 100 placements in a row without an auto-drop', () => {
+    const { t } = tracker();
+    t.handle(started);
+    for (let i = 0; i < 99; i++) t.handle(placed);
+    t.handle({ type: 'autoDrop', penalty: 10, x: 0, y: 0 });
+    t.handle({ type: 'piecePlaced', shapeIndex: 1, x: 0, y: 0, auto: true });
+    for (let i = 0; i < 99; i++) t.handle(placed);
+    expect(t.isUnlocked('steady')).toBe(false);
+    t.handle(placed);
+    expect(t.isUnlocked('steady')).toBe(true);
+  });
+
+  it('keeps unlocks and the game in progress across a reload', () => {
+    const { t, storage } = tracker();
+    t.handle(started);
+    t.handle({ type: 'loopDetected', length: 20, shapeIndex: 3 });
+    t.handle(cleared);
+    t.handle(cleared);
+
+    const reloaded = tracker(storage);
+    expect(reloaded.t.isUnlocked('big-loop')).toBe(true);
+    expect(reloaded.t.unlockedAt('big-loop')).toMatch(/^\d{4}-\d\d-\d\d/);
+    reloaded.t.handle({ type: 'loopDetected', length: 30, shapeIndex: 3 });
+    reloaded.t.handle(cleared);
+    // already unlocked badges don't fire again
+    expect(reloaded.unlocks).toEqual(['triple-double']);
+    expect(reloaded.t.unlockedCount).toBe(4);
+  });
+
+  it('reloads what another tab saved in place of its own', () => {
+    const { t, storage } = tracker();
+    t.handle(started);
+    const other = tracker(storage);
+    other.t.handle(started);
+    other.t.handle(cleared);
+    expect(t.isUnlocked('double')).toBe(false);
+    t.reload();
+    expect(t.isUnlocked('double')).toBe(true);
+  });
+
+  it('writes storage only when its progress changes', () => {
+    const { t, storage } = tracker();
+    t.handle(started);
+    const set = vi.spyOn(storage, 'set');
+    t.handle({ type: 'pieceMoved', shapeIndex: 1, dx: 1, dy: 0 });
+    expect(set).not.toHaveBeenCalled();
+    t.handle(placed);
+    expect(set).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores events outside a game', () => {
+    const { t, unlocks } = tracker();
+    t.handle(cleared);
+    t.handle({ ...over, score: 1000 });
+    expect(unlocks).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+// achievements.ts
+// Badges unlocked by gameplay. Each achievement is plain data: a name, a
+// description and a goal over the game events; the tracker keeps the counters
+// the goals need and remembers unlocks in storage.
+import type { GameEvent } from './gameEvents';
+import type { KeyValueStorage } from './platform';
+
+const HONEYNUT = 8;
+
+export type AchievementGoal =
+  // close a single loop of at least `tiles` tiles
+  | { kind: 'loopLength'; tiles: number }
+  // an event happens `count` times within one game
+  | { kind: 'perGame'; event: GameEvent['type']; count: number }
+  // the board is emptied by a removal started with this piece
+  | { kind: 'clearWith'; shapeIndex: number }
+  // place `pieces` pieces in a row without the timer auto-dropping one
+  | { kind: 'noAutoDrop'; pieces: number }
+  // finish a game with at least this score
+  | { kind: 'finalScore'; score: number }
+  // finish this many games in total
+  | { kind: 'gamesPlayed'; count: number };
+
+export type Achievement = {
+  id: string;
+  name: string;
+  description: string;
+  goal: AchievementGoal;
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'first-loop', name: 'First Loop', description: 'close a loop', goal: { kind: 'loopLength', tiles: 1 } },
+  { id: 'big-loop', name: 'Big Loop', description: 'close a 20-tile loop', goal: { kind: 'loopLength', tiles: 20 } },
+  { id: 'exact', name: 'Perfect Fit', description: 'remove tiles with an exact match', goal: { kind: 'perGame', event: 'exactMatchRemoval', count: 1 } },
+  { id: 'double', name: 'Double', description: 'clear the board', goal: { kind: 'perGame', event: 'boardCleared', count: 1 } },
+  { id: 'triple-double', name: 'Triple Double', description: 'double the score 3 times in one game', goal: { kind: 'perGame', event: 'boardCleared', count: 3 } },
+  { id: 'honeynut', name: 'Honeynut', description: 'clear the board with a Honeynut Loop', goal: { kind: 'clearWith', shapeIndex: HONEYNUT } },
+  { id: 'steady', name: 'Steady Hand', description: 'place 100 pieces without an auto-drop', goal: { kind: 'noAutoDrop', pieces: 100 } },
+  { id: 'score-500', name: 'High Roller', description: 'finish a game with 500 points', goal: { kind: 'finalScore', score: 500 } },
+  { id: 'regular', name: 'Regular', description: 'finish 25 games', goal: { kind: 'gamesPlayed', count: 25 } },
+];
+
+// Counters for the game in progress
+type GameProgress = {
+  counts: Partial<Record<GameEvent['type'], number>>;
+  // pieces placed since the last auto-drop
+  streak: number;
+  // piece that started the running removal
+  removalShape: number;
+};
+
+const ACHIEVEMENTS_KEY = 'double_achievements';
+
+// Events the per-game goals count; no others are counted
+const COUNTED_EVENTS = new Set(ACHIEVEMENTS.flatMap((a) => (a.goal.kind === 'perGame' ? [a.goal.event] : [])));
+
+// Follows game events and unlocks achievements. Like the stats tracker it
+// stores the game in progress, so a reload mid-game keeps its counters.
+export class AchievementTracker {
+  private storage: KeyValueStorage;
+  // achievement id -> ISO date of the unlock
+  private unlocked: Record<string, string> = {};
+  private gamesPlayed = 0;
+  private current: GameProgress | null = null;
+  // called once per new unlock (the app shows a toast)
+  onUnlock: ((achievement: Achievement) => void) | null = null;
+
+  constructor(storage: KeyValueStorage) {
+    this.storage = storage;
+    this.load();
+  }
+
+  isUnlocked(id: string): boolean {
+    return id in this.unlocked;
+  }
+
+  // ISO date of the unlock, null while locked
+  unlockedAt(id: string): string | null {
+    return this.unlocked[id] ?? null;
+  }
+
+  get unlockedCount(): number {
+    return ACHIEVEMENTS.filter((a) => this.isUnlocked(a.id)).length;
+  }
+
+  handle(event: GameEvent) {
+    if (event.type === 'gameStarted') {
+      this.current = { counts: {}, streak: 0, removalShape: -1 };
+      this.save();
+      return;
+    }
+    const game = this.current;
+    if (!game) return;
+    // storage is only written when something kept here changed, so moving
+    // the piece around doesn't write on every step
+    let changed = COUNTED_EVENTS.has(event.type);
+    if (changed) game.counts[event.type] = (game.counts[event.type] ?? 0) + 1;
+    switch (event.type) {
+      case 'piecePlaced':
+        if (!event.auto) game.streak++;
+        changed = true;
+        break;
+      case 'autoDrop':
+        game.streak = 0;
+        changed = true;
+        break;
+      case 'loopDetected':
+      case 'exactMatchRemoval':
+        game.removalShape = event.shapeIndex;
+        if (event.type === 'exactMatchRemoval' && !event.auto) game.streak++;
+        changed = true;
+        break;
+      case 'gameOver':
+        this.gamesPlayed++;
+        changed = true;
+        break;
+    }
+    for (const achievement of ACHIEVEMENTS) {
+      if (!this.isUnlocked(achievement.id) && this.reached(achievement.goal, event, game)) {
+        this.unlocked[achievement.id] = new Date().toISOString();
+        this.onUnlock?.(achievement);
+        changed = true;
+      }
+    }
+    if (event.type === 'gameOver') this.current = null;
+    if (changed) this.save();
+  }
+
+  private reached(goal: AchievementGoal, event: GameEvent, game: GameProgress): boolean {
+    switch (goal.kind) {
+      case 'loopLength':
+        return event.type === 'loopDetected' && event.length >= goal.tiles;
+      case 'perGame':
+        return event.type === goal.event && (game.counts[goal.event] ?? 0) >= goal.count;
+      case 'clearWith':
+        return event.type === 'boardCleared' && game.removalShape === goal.shapeIndex;
+      case 'noAutoDrop':
+        return game.streak >= goal.pieces;
+      case 'finalScore':
+        return event.type === 'gameOver' && event.score >= goal.score;
+      case 'gamesPlayed':
+        return this.gamesPlayed >= goal.count;
+    }
+  }
+
+  // Read unlocks and progress back from storage, dropping what this tracker
+  // holds (a tab taking the game over from another one)
+  reload() {
+    this.unlocked = {};
+    this.gamesPlayed = 0;
+    this.current = null;
+    this.load();
+  }
+
+  private load() {
+    try {
+      const raw = JSON.parse(this.storage.get(ACHIEVEMENTS_KEY) || 'null');
+      if (!raw || typeof raw !== 'object') return;
+      if (raw.unlocked && typeof raw.unlocked === 'object') {
+        for (const [id, date] of Object.entries(raw.unlocked)) {
+          if (typeof date === 'string') this.unlocked[id] = date;
+        }
+      }
+      if (Number.isFinite(raw.gamesPlayed)) this.gamesPlayed = raw.gamesPlayed;
+      this.current = raw.current && typeof raw.current === 'object' ? raw.current : null;
+    } catch (e) {
+      // ignore corrupt data; achievements start over
+    }
+  }
+
+  private save() {
+    try {
+      this.storage.set(
+        ACHIEVEMENTS_KEY,
+        JSON.stringify({ unlocked: this.unlocked, gamesPlayed: this.gamesPlayed, current: this.current })
+      );
+    } catch (e) {
+      // ignore
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { actionForKey, DEFAULT_GESTURES, DEFAULT_KEYS, DEFAULT_PAD, loadGestures, loadPad, rebind, sameBindings } from './bindings';
+
+describe('bindings', () => {
+  it('finds the action of a key', () => {
+    expect(actionForKey(DEFAULT_KEYS, 'arrowleft')).toBe('moveLeft');
+    expect(actionForKey(DEFAULT_KEYS, ' ')).toBe('place');
+    expect(actionForKey({ ...DEFAULT_KEYS, hold: ['q'] }, 'c')).toBeNull();
+  });
+
+  it('moves a rebound input away from its old action', () => {
+    const keys = rebind(DEFAULT_KEYS, 'hold', 'a');
+    expect(keys.hold).toEqual(['a']);
+    expect(keys.moveLeft).toEqual(['arrowleft']);
+    expect(actionForKey(keys, 'c')).toBeNull();
+    expect(sameBindings(keys, DEFAULT_KEYS)).toBe(false);
+    expect(sameBindings(DEFAULT_KEYS, DEFAULT_KEYS)).toBe(true);
+    const pad = rebind(DEFAULT_PAD, 'place', 1);
+    expect(pad).toEqual({ ...DEFAULT_PAD, place: [1], back: [] });
+  });
+
+  it('keeps defaults for broken stored entries', () => {
+    expect(loadPad({ place: [3], hold: ['x'], pause: [-1] })).toEqual({ ...DEFAULT_PAD, place: [3] });
+    expect(loadGestures({ leftClick: null, rightClick: 'explode', wheelUp: 'hold' })).toEqual({
+      ...DEFAULT_GESTURES,
+      leftClick: null,
+      wheelUp: 'hold',
+    });
+    expect(loadGestures('nope')).toEqual(DEFAULT_GESTURES);
+  });
+});
@@ -0,0 +1,157 @@
+// bindings.ts
+// The action layer between input devices and the game. Keyboard, gamepad,
+// mouse and touch are backends: each looks its input up in a binding table
+// and hands the resulting action on, so the game only ever sees actions.
+// The tables are part of the settings and rebound on the controls screen.
+
+// In-game commands that inputs are bound to. There is no undo: the game has
+// no way to take a placement back, so there is nothing to bind it to yet.
+export type InputAction = 'moveLeft' | 'moveRight' | 'moveUp' | 'moveDown' | 'rotateCCW' | 'rotateCW' | 'hold' | 'place' | 'pause';
+
+// On the gamepad there is also B for going back in menus
+export type PadAction = InputAction | 'back';
+
+// Lower-cased KeyboardEvent.key values per action
+export type KeyBindings = Record<InputAction, string[]>;
+// Standard-mapping gamepad button indices per action
+export type PadBindings = Record<PadAction, number[]>;
+
+// Mouse and touch gestures; each one triggers at most one action
+export type Gesture = 'leftClick' | 'rightClick' | 'middleClick' | 'wheelUp' | 'wheelDown' | 'tapLeft' | 'tapRight' | 'twoFingerTap' | 'longPress';
+export type GestureBindings = Record<Gesture, InputAction | null>;
+
+// Every action in the order the controls screen lists them, with its label
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'moveLeft', label: 'move left' },
+  { action: 'moveRight', label: 'move right' },
+  { action: 'moveUp', label: 'move up' },
+  { action: 'moveDown', label: 'move down' },
+  { action: 'rotateCCW', label: 'rotate left' },
+  { action: 'rotateCW', label: 'rotate right' },
+  { action: 'hold', label: 'hold' },
+  { action: 'place', label: 'place' },
+  { action: 'pause', label: 'pause' },
+];
+
+export const MOUSE_GESTURES: { gesture: Gesture; label: string }[] = [
+  { gesture: 'leftClick', label: 'left click' },
+  { gesture: 'rightClick', label: 'right click' },
+  { gesture: 'middleClick', label: 'middle click' },
+  { gesture: 'wheelUp', label: 'wheel up' },
+  { gesture: 'wheelDown', label: 'wheel down' },
+];
+
+export const TOUCH_GESTURES: { gesture: Gesture; label: string }[] = [
+  { gesture: 'tapLeft', label: 'tap left' },
+  { gesture: 'tapRight', label: 'tap right' },
+  { gesture: 'twoFingerTap', label: 'two fingers' },
+  { gesture: 'longPress', label: 'long press' },
+];
+
+export const DEFAULT_KEYS: KeyBindings = {
+  moveLeft: ['arrowleft', 'a'],
+  moveRight: ['arrowright', 'd'],
+  moveUp: ['arrowup', 'w'],
+  moveDown: ['arrowdown', 's'],
+  rotateCCW: ['z', 'y', 'n'],
+  rotateCW: ['x', 'm'],
+  hold: ['c', 'h'],
+  place: [' ', 'enter'],
+  pause: ['escape', 'p'],
+};
+
+// A, B, X, shoulders, Start and the D-pad (the left stick always moves)
+export const DEFAULT_PAD: PadBindings = {
+  moveLeft: [14],
+  moveRight: [15],
+  moveUp: [12],
+  moveDown: [13],
+  rotateCCW: [4],
+  rotateCW: [5],
+  hold: [2],
+  place: [0],
+  pause: [9],
+  back: [1],
+};
+
+export const DEFAULT_GESTURES: GestureBindings = {
+  leftClick: 'place',
+  rightClick: 'rotateCW',
+  middleClick: 'hold',
+  wheelUp: 'rotateCCW',
+  wheelDown: 'rotateCW',
+  tapLeft: 'rotateCCW',
+  tapRight: 'rotateCW',
+  twoFingerTap: 'hold',
+  longPress: 'place',
+};
+
+// The action an input is bound to, if any
+export function actionForKey(keys: KeyBindings, key: string): InputAction | null {
+  for (const action of Object.keys(keys) as InputAction[]) {
+    if (keys[action].includes(key)) return action;
+  }
+  return null;
+}
+
+// Bind one input to an action in place of its old ones; no other action keeps it
+export function rebind<A extends string, T>(table: Record<A, T[]>, action: NoInfer<A>, input: NoInfer<T>): Record<A, T[]> {
+  const next = {} as Record<A, T[]>;
+  for (const a of Object.keys(table) as A[]) next[a] = table[a].filter((i) => i !== input);
+  next[action] = [input];
+  return next;
+}
+
+export function sameBindings<A extends string, T>(a: Record<A, T[]>, b: Record<A, T[]>): boolean {
+  return (Object.keys(b) as A[]).every((action) => a[action].join('\n') === b[action].join('\n'));
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'space',
+  arrowleft: 'left',
+  arrowright: 'right',
+  arrowup: 'up',
+  arrowdown: 'down',
+  escape: 'esc',
+};
+const BUTTON_NAMES = ['a', 'b', 'x', 'y', 'lb', 'rb', 'lt', 'rt', 'select', 'start', 'ls', 'rs', 'up', 'down', 'left', 'right', 'home'];
+
+// Short names for the controls screen
+export function keyName(key: string): string {
+  return KEY_NAMES[key] ?? key;
+}
+
+export function buttonName(button: number): string {
+  return BUTTON_NAMES[button] ?? `b${button}`;
+}
+
+// Stored tables with every entry present; entries left out (or broken) keep their defaults
+function loadLists<A extends string, T>(raw: unknown, defaults: Record<A, T[]>, valid: (input: unknown) => input is T): Record<A, T[]> {
+  const table = { ...defaults };
+  if (!raw || typeof raw !== 'object') return table;
+  for (const action of Object.keys(defaults) as A[]) {
+    const list: unknown = (raw as Record<string, unknown>)[action];
+    if (Array.isArray(list) && list.every(valid)) table[action] = list;
+  }
+  return table;
+}
+
+export function loadKeys(raw: unknown): KeyBindings {
+  return loadLists(raw, DEFAULT_KEYS, (k): k is string => typeof k === 'string');
+}
+
+export function loadPad(raw: unknown): PadBindings {
+  return loadLists(raw, DEFAULT_PAD, (b): b is number => Number.isInteger(b) && (b as number) >= 0);
+}
+
+export function loadGestures(raw: unknown): GestureBindings {
+  const gestures = { ...DEFAULT_GESTURES };
+  if (!raw || typeof raw !== 'object') return gestures;
+  for (const gesture of Object.keys(DEFAULT_GESTURES) as Gesture[]) {
+    const action = (raw as Record<string, unknown>)[gesture];
+    if (action === null) gestures[gesture] = null;
+    const bound = INPUT_ACTIONS.find((a) => a.action === action);
+    if (bound) gestures[gesture] = bound.action;
+  }
+  return gestures;
+}
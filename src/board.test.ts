@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { boardFromRows } from './testFixtures';
+
+const key = (c: { x: number; y: number }) => `${c.x},${c.y}`;
+
+describe('Board.detectLoop', () => {
+  it('returns null for an empty cell', () => {
+    const board = boardFromRows(['..', '..']);
+    expect(board.detectLoop(0, 0)).toBeNull();
+  });
+
+  it('finds the smallest 2x2 loop in cycle order', () => {
+    const board = boardFromRows(['┌┐', '└┘']);
+    expect(board.detectLoop(0, 0)).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
+    ]);
+    expect(board.detectLoop(1, 1)).toEqual([
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+    ]);
+  });
+
+  it('returns every tile of a larger loop from any of its cells', () => {
+    const board = boardFromRows([
+      '┌──┐',
+      '│..│',
+      '└┐┌┘',
+      '.└┘.',
+    ]);
+    const expected = ['0,0', '1,0', '2,0', '3,0', '0,1', '3,1', '0,2', '1,2', '2,2', '3,2', '1,3', '2,3'];
+    for (const k of expected) {
+      const [x, y] = k.split(',').map(Number);
+      const loop = board.detectLoop(x, y)!;
+      expect(loop).not.toBeNull();
+      expect(loop[0]).toEqual({ x, y });
+      expect(loop.map(key).sort()).toEqual([...expected].sort());
+    }
+  });
+
+  it('walks the loop so consecutive cells are neighbours', () => {
+    const board = boardFromRows([
+      '┌─┐',
+      '│.│',
+      '└─┘',
+    ]);
+    const loop = board.detectLoop(1, 0)!;
+    expect(loop).toHaveLength(8);
+    for (let i = 0; i < loop.length; i++) {
+      const a = loop[i];
+      const b = loop[(i + 1) % loop.length];
+      expect(Math.abs(a.x - b.x) + Math.abs(a.y - b.y)).toBe(1);
+    }
+  });
+
+  it('does not report open paths', () => {
+    const board = boardFromRows([
+      '┌─┐',
+      '│.│',
+      '└─.',
+    ]);
+    for (const [x, y] of [[0, 0], [1, 0], [2, 0], [0, 1], [2, 1], [0, 2], [1, 2]]) {
+      expect(board.detectLoop(x, y)).toBeNull();
+    }
+  });
+
+  it('requires both neighbours to connect back', () => {
+    // same outline as a loop, but the bottom-right corner points the wrong way
+    const board = boardFromRows(['┌┐', '└┐']);
+    expect(board.detectLoop(0, 0)).toBeNull();
+  });
+
+  it('does not leak into separate components', () => {
+    const board = boardFromRows([
+      '┌┐┌┐',
+      '└┘└─',
+    ]);
+    expect(board.detectLoop(0, 0)!.map(key).sort()).toEqual(['0,0', '0,1', '1,0', '1,1']);
+    expect(board.detectLoop(2, 0)).toBeNull();
+  });
+
+  it('finds loops that touch the board edges', () => {
+    const board = boardFromRows([
+      '....',
+      '..┌┐',
+      '..└┘',
+    ]);
+    expect(board.detectLoop(3, 2)!.map(key).sort()).toEqual(['2,1', '2,2', '3,1', '3,2']);
+  });
+});
@@ -0,0 +1,45 @@
+// browserPlatform.ts
+// Browser adapter for the game engine: wires the platform interfaces to
+// performance.now, window timers, localStorage and navigator.vibrate.
+import type { Game } from './game';
+import type { Platform } from './platform';
+import { createMulberry32 } from './random';
+import { storageGet, storageRemove, storageSet } from './storage';
+
+// hapticsEnabled is checked on every vibration so a settings change applies at once
+export function createBrowserPlatform(hapticsEnabled: () => boolean = () => true): Platform {
+  return {
+    clock: {
+      now: () => performance.now(),
+      setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+      clearTimeout: (id) => window.clearTimeout(id),
+    },
+    storage: {
+      get: storageGet,
+      set: storageSet,
+      remove: storageRemove,
+    },
+    haptics: {
+      // Small vibration helper (wrap navigator.vibrate safely)
+      vibrate(pattern) {
+        if (!hapticsEnabled()) return;
+        try {
+          if (typeof navigator !== 'undefined' && 'vibrate' in navigator && typeof (navigator as any).vibrate === 'function') {
+            (navigator as any).vibrate(pattern);
+          }
+        } catch (e) {
+          // ignore on platforms that don't support vibration
+        }
+      },
+    },
+    rngFactory: createMulberry32,
+  };
+}
+
+// Hook the game into window lifecycle events
+export function bindGameToWindow(game: Game) {
+  // Ensure we persist on unload
+  try {
+    window.addEventListener('beforeunload', () => game.saveState());
+  } catch (e) {}
+}
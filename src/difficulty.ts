@@ -0,0 +1,38 @@
+// difficulty.ts
+// Difficulty presets: the piece timer starts at timerStart and gets shorter
+// by timerStep every level, down to timerMin. A level is gained every
+// loopsPerLevel closed loops.
+
+export type DifficultyId = 'easy' | 'normal' | 'hard' | 'insane';
+
+export type Difficulty = {
+  id: DifficultyId;
+  name: string;
+  timerStart: number; // ms at level 1
+  timerStep: number; // ms removed per level
+  timerMin: number; // ms
+  loopsPerLevel: number;
+};
+
+export const DIFFICULTIES: Difficulty[] = [
+  { id: 'easy', name: 'Easy', timerStart: 12000, timerStep: 400, timerMin: 6000, loopsPerLevel: 4 },
+  { id: 'normal', name: 'Normal', timerStart: 9000, timerStep: 500, timerMin: 4000, loopsPerLevel: 3 },
+  { id: 'hard', name: 'Hard', timerStart: 7000, timerStep: 500, timerMin: 3000, loopsPerLevel: 3 },
+  { id: 'insane', name: 'Insane', timerStart: 5000, timerStep: 400, timerMin: 2000, loopsPerLevel: 2 },
+];
+
+export const DEFAULT_DIFFICULTY_ID: DifficultyId = 'normal';
+
+export function getDifficulty(id: string | undefined): Difficulty {
+  return DIFFICULTIES.find((d) => d.id === id) ?? DIFFICULTIES.find((d) => d.id === DEFAULT_DIFFICULTY_ID)!;
+}
+
+// Level reached after closing the given number of loops (levels start at 1)
+export function levelForLoops(difficulty: Difficulty, loopsClosed: number): number {
+  return 1 + Math.floor(Math.max(0, loopsClosed) / difficulty.loopsPerLevel);
+}
+
+// Piece timer for a level (ms)
+export function timerForLevel(difficulty: Difficulty, level: number): number {
+  return Math.max(difficulty.timerMin, difficulty.timerStart - (level - 1) * difficulty.timerStep);
+}
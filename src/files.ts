@@ -0,0 +1,43 @@
+// files.ts
+// Browser helpers for saving text as a downloaded file and reading a text
+// file picked by the user.
+
+export function downloadText(filename: string, text: string, type = 'application/json') {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // give the browser a moment to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Open a file picker and resolve with the file contents, or null if the
+// user cancels or the file can't be read.
+export function pickTextFile(accept = '.json,application/json'): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+      const file = input.files && input.files[0];
+      if (!file) return resolve(null);
+      file.text().then(resolve, () => resolve(null));
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
+// Put text on the clipboard; resolves false where that isn't allowed
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
@@ -0,0 +1,645 @@
+import { describe, expect, it } from 'vitest';
+import { CELL_EMPTY } from './board';
+import { DIFFICULTIES, getDifficulty, timerForLevel } from './difficulty';
+import { Game } from './game';
+import { createHeadlessGame, createHeadlessPlatform } from './headless';
+import { Piece, PIECE_SHAPES, shapePivot } from './piece';
+import { boardToRows, loadBoard, pieceCells, PIECE_NAMES, setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const SHORT_STRAIGHT = 1;
+const SMALL_CORNER = 0;
+const LONG_STRAIGHT = 2;
+const REMOVAL_INTERVAL = 150;
+const TIMER = 9000;
+
+// Empty rows of the default board width, used to pad fixtures
+const empty = (n: number) => Array.from({ length: n }, () => '..........');
+
+function popupTexts(game: Game) {
+  return (game.state.popups ?? []).map((p) => p.text);
+}
+
+describe('progressive loop scoring', () => {
+  it('scores (index+1) per removed tile and doubles an emptied board', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const { game } = h;
+    setPiece(game, HONEYNUT, 0, 0, 0);
+    game.placePiece();
+    expect(game.state.currentPiece).toBeNull();
+
+    const scores: number[] = [];
+    const removed: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      const before = boardToRows(game.board);
+      h.tick(REMOVAL_INTERVAL);
+      const after = boardToRows(game.board);
+      for (let y = 0; y < 2; y++) {
+        for (let x = 0; x < 2; x++) {
+          if (before[y][x] !== '.' && after[y][x] === '.') removed.push(`${x},${y}`);
+        }
+      }
+      scores.push(game.state.score);
+    }
+    // removal starts from the last placed tile and walks the cycle
+    expect(removed).toEqual(['1,1', '0,1', '0,0', '1,0']);
+    // 1 + 2 + 3 + 4 = 10, then the empty board doubles it
+    expect(scores).toEqual([1, 3, 6, 20]);
+    expect(popupTexts(game)).toEqual(['+1', '+2', '+3', '+4', '+10']);
+    expect(game.state.doubleFlashStart).toBe(h.clock.now());
+    // the next piece spawns once the animation finishes
+    expect(game.state.currentPiece).not.toBeNull();
+  });
+
+  it('does not remove more than one tile per interval', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    h.tick(REMOVAL_INTERVAL - 1);
+    expect(h.game.state.score).toBe(0);
+    h.tick(1);
+    expect(h.game.state.score).toBe(1);
+    h.tick(REMOVAL_INTERVAL / 2);
+    expect(h.game.state.score).toBe(1);
+  });
+
+  it('does not double when other tiles remain on the board', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const { game } = h;
+    loadBoard(game, [
+      '┌─┐......',
+      '│.│......',
+      '└.┘.....│',
+      ...empty(17).map((r) => r.slice(1)),
+    ]);
+    setPiece(game, SHORT_STRAIGHT, 1, 1, 2);
+    game.placePiece();
+    for (let i = 0; i < 8; i++) h.tick(REMOVAL_INTERVAL);
+    // 1 + 2 + ... + 8
+    expect(game.state.score).toBe(36);
+    expect(popupTexts(game)).toEqual(['+1', '+2', '+3', '+4', '+5', '+6', '+7', '+8']);
+    expect(boardToRows(game.board).slice(0, 3)).toEqual(['.........', '.........', '........│']);
+    expect(game.state.doubleFlashStart).toBeUndefined();
+  });
+
+  it('pauses the piece timer while tiles are being removed', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    expect(h.game.state.timerRemaining).toBe(TIMER);
+  });
+});
+
+describe('exact-match removal', () => {
+  it('halves the score once, rounding up, after the animation', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const { game } = h;
+    loadBoard(game, ['┌──......│', ...empty(19)]);
+    game.state.score = 25;
+    setPiece(game, 2, 1, 1, 0); // horizontal long straight exactly over ──
+    game.placePiece();
+    expect(game.state.currentPiece).toBeNull();
+    // no per-tile scoring while the tiles are removed
+    h.tick(REMOVAL_INTERVAL);
+    expect(game.state.score).toBe(25);
+    h.tick(REMOVAL_INTERVAL);
+    // ceil(25 / 2) = 13
+    expect(game.state.score).toBe(13);
+    expect(popupTexts(game)).toEqual(['-12']);
+    expect(boardToRows(game.board)[0]).toBe('┌........│');
+  });
+
+  it('requires every tile to match', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['┌─........', ...empty(19)]);
+    h.game.state.score = 25;
+    const piece = setPiece(h.game, 2, 1, 0, 0); // ── over ┌─
+    h.game.placePiece();
+    expect(h.game.state.currentPiece).toBe(piece);
+    expect(h.game.state.score).toBe(25);
+    expect(boardToRows(h.game.board)[0]).toBe('┌─........');
+  });
+
+  it('still runs when the score is zero', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['│.........', '.........│', ...empty(18)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.game.placePiece();
+    h.tick(REMOVAL_INTERVAL);
+    expect(boardToRows(h.game.board)[0]).toBe('..........');
+    expect(h.game.state.score).toBe(0);
+    expect(popupTexts(h.game)).toEqual(['-0']);
+  });
+
+  it('doubles the halved score when it empties the board', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['│.........', ...empty(19)]);
+    h.game.state.score = 7;
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.game.placePiece();
+    h.tick(REMOVAL_INTERVAL);
+    // ceil(7 / 2) = 4, doubled = 8
+    expect(h.game.state.score).toBe(8);
+    expect(popupTexts(h.game)).toEqual(['-3', '+4']);
+  });
+});
+
+describe('placement preview', () => {
+  it('shows the loop a placement closes and what it pays', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    setPiece(h.game, SMALL_CORNER, 0, 4, 4);
+    expect(h.game.placementPreview()).toEqual({ kind: 'valid', loop: [], payout: 0, clearsBoard: false });
+    loadBoard(h.game, [...empty(10), '.........│', ...empty(9)]);
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    const preview = h.game.placementPreview();
+    expect(preview).toMatchObject({ kind: 'valid', payout: 10, clearsBoard: false });
+    expect(preview?.kind === 'valid' && preview.loop).toHaveLength(4);
+  });
+
+  it('counts the doubling of an emptied board in the payout', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    h.game.state.score = 5;
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    // (5 + 10) * 2 = 30
+    expect(h.game.placementPreview()).toMatchObject({ kind: 'valid', payout: 25, clearsBoard: true });
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    expect(h.game.state.score).toBe(30);
+  });
+
+  it('points out the tiles that block a placement', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['┌─........', ...empty(19)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    expect(h.game.placementPreview()).toEqual({ kind: 'blocked', collisions: [{ x: 0, y: 0 }] });
+  });
+
+  it('warns that an exact match halves the score', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['┌──......│', ...empty(19)]);
+    h.game.state.score = 25;
+    setPiece(h.game, 2, 1, 1, 0);
+    expect(h.game.placementPreview()).toEqual({ kind: 'exactMatch', payout: -12 });
+    h.game.currentPiece = null;
+    expect(h.game.placementPreview()).toBeNull();
+  });
+});
+
+describe('timer auto-drop', () => {
+  it('places the piece with a -10 penalty when the timer runs out', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const { game } = h;
+    game.state.score = 25;
+    const piece = setPiece(game, SMALL_CORNER, 0, 4, 4);
+    h.tick(TIMER - 1);
+    expect(game.state.score).toBe(25);
+    h.tick(1);
+    expect(game.state.score).toBe(15);
+    expect(popupTexts(game)).toEqual(['-10']);
+    expect(game.board.grid[4][4]).toBe(piece.shape[0][0]);
+    expect(game.state.currentPiece).not.toBe(piece);
+    expect(game.state.timerRemaining).toBe(TIMER);
+  });
+
+  it('never drops the score below zero', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    h.game.state.score = 4;
+    setPiece(h.game, SMALL_CORNER, 0, 4, 4);
+    h.tick(TIMER);
+    expect(h.game.state.score).toBe(0);
+  });
+
+  it('applies the penalty before exact-match halving', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['│........│', ...empty(19)]);
+    h.game.state.score = 25;
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.tick(TIMER);
+    expect(h.game.state.score).toBe(15);
+    h.tick(REMOVAL_INTERVAL);
+    // ceil(15 / 2) = 8
+    expect(h.game.state.score).toBe(8);
+    expect(popupTexts(h.game)).toEqual(['-10', '-7']);
+  });
+
+  it('ends the game when the piece cannot be placed', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['─.........', ...empty(19)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.tick(TIMER);
+    expect(h.game.state.isGameOver).toBe(true);
+    expect(h.game.state.isRunning).toBe(false);
+    expect(h.game.state.canRestart).toBe(false);
+    h.clock.advance(2000);
+    expect(h.game.state.canRestart).toBe(true);
+  });
+});
+
+describe('placement', () => {
+  it('ignores a colliding placement', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, ['│.........', ...empty(19)]);
+    const piece = setPiece(h.game, SHORT_STRAIGHT, 1, 0, 0);
+    h.game.placePiece();
+    expect(h.game.state.currentPiece).toBe(piece);
+    expect(boardToRows(h.game.board)[0]).toBe('│.........');
+  });
+
+  it('keeps moves inside the board', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const piece = setPiece(h.game, SMALL_CORNER, 0, 0, 0);
+    h.game.movePiece(-1, 0);
+    h.game.movePiece(0, -1);
+    expect([piece.x, piece.y]).toEqual([0, 0]);
+    h.game.movePiece(1, 1);
+    expect([piece.x, piece.y]).toEqual([1, 1]);
+  });
+});
+
+describe.each(PIECE_SHAPES.map((shape, index) => ({ shape, index, name: PIECE_NAMES[index] })))(
+  '$name',
+  ({ shape, index }) => {
+    const rotations = shape.map((_, rotation) => rotation);
+
+    it.each(rotations)('places rotation %i onto the board', (rotation) => {
+      const h = createHeadlessGame({ seed: 1 });
+      const piece = setPiece(h.game, index, rotation, 3, 3);
+      const cells = pieceCells(piece);
+      h.game.placePiece();
+      for (const c of cells) expect(h.game.board.grid[c.y][c.x]).toBe(c.cell);
+      const filled = h.game.board.grid.flat().filter((c) => c !== CELL_EMPTY).length;
+      expect(filled).toBe(cells.length);
+      if (index === HONEYNUT) {
+        // the Honeynut Loop is a closed loop on its own
+        expect(h.game.state.currentPiece).toBeNull();
+        for (let i = 0; i < cells.length; i++) h.tick(REMOVAL_INTERVAL);
+        expect(h.game.state.score).toBe(20);
+      } else {
+        expect(h.game.state.currentPiece).not.toBeNull();
+        expect(h.game.state.score).toBe(0);
+      }
+    });
+
+    it.each(rotations)('removes an exact match of rotation %i', (rotation) => {
+      const h = createHeadlessGame({ seed: 1 });
+      const piece = setPiece(h.game, index, rotation, 3, 3);
+      piece.placeOnBoard(h.game.board);
+      h.game.state.score = 9;
+      h.game.placePiece();
+      expect(h.game.state.currentPiece).toBeNull();
+      const cells = pieceCells(piece);
+      for (let i = 0; i < cells.length; i++) h.tick(REMOVAL_INTERVAL);
+      // ceil(9 / 2) = 5, then doubled because the board is empty again
+      expect(h.game.state.score).toBe(10);
+      expect(h.game.board.grid.flat().every((c) => c === CELL_EMPTY)).toBe(true);
+    });
+
+    it.each(rotations)('turns about its middle tile from rotation %i and back', (rotation) => {
+      const h = createHeadlessGame({ seed: 1 });
+      const piece = setPiece(h.game, index, rotation, 4, 8);
+      const pivot = () => {
+        const p = shapePivot(piece.shape);
+        return [piece.x + p.x, piece.y + p.y];
+      };
+      const start = pivot();
+      h.game.rotatePiece();
+      expect(pivot()).toEqual(start);
+      h.game.rotatePiece(-1);
+      expect([piece.rotation, piece.x, piece.y]).toEqual([rotation, 4, 8]);
+      // a full turn ends where it started
+      for (let i = 0; i < shape.length; i++) h.game.rotatePiece(-1);
+      expect([piece.rotation, piece.x, piece.y]).toEqual([rotation, 4, 8]);
+    });
+
+    it.each(rotations)('stays inside the board when rotating from rotation %i in a corner', (rotation) => {
+      const h = createHeadlessGame({ seed: 1 });
+      const board = h.game.board;
+      const probe = new Piece(shape, 0, 0);
+      probe.rotation = rotation;
+      const maxX = Math.max(...pieceCells(probe).map((c) => c.x));
+      const maxY = Math.max(...pieceCells(probe).map((c) => c.y));
+      const piece = setPiece(h.game, index, rotation, board.width - 1 - maxX, board.height - 1 - maxY);
+      for (let i = 0; i < shape.length; i++) {
+        h.game.rotatePiece();
+        expect(piece.rotation).toBe((rotation + i + 1) % shape.length);
+        for (const c of pieceCells(piece)) {
+          expect(c.x).toBeGreaterThanOrEqual(0);
+          expect(c.x).toBeLessThan(board.width);
+          expect(c.y).toBeGreaterThanOrEqual(0);
+          expect(c.y).toBeLessThan(board.height);
+        }
+      }
+    });
+  }
+);
+
+describe('rotation kicks', () => {
+  // A long straight standing at (4, 4) lies down across (4, 4) and (5, 4)
+  const turnInto = (row: string, dir: 1 | -1 = 1) => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, [...empty(4), row, ...empty(15)]);
+    const piece = setPiece(h.game, LONG_STRAIGHT, 0, 4, 4);
+    h.game.rotatePiece(dir);
+    return piece;
+  };
+
+  it('moves a turned piece off occupied cells', () => {
+    expect(turnInto('.....│....').x).toBe(3);
+    expect(turnInto('.....│....', -1).x).toBe(3);
+    expect(turnInto('...││.....', -1).x).toBe(5);
+  });
+
+  it('prefers a spot the piece exactly matches', () => {
+    const piece = turnInto('...──│....');
+    expect([piece.x, piece.y]).toEqual([3, 4]);
+  });
+
+  it('stays put when every spot nearby is taken', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, Array.from({ length: 20 }, () => '││││││││││'));
+    const piece = setPiece(h.game, LONG_STRAIGHT, 0, 4, 4);
+    h.game.rotatePiece();
+    expect([piece.rotation, piece.x, piece.y]).toEqual([1, 4, 4]);
+  });
+
+  it('turns games recorded before kicks the old way', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    const save = h.game.toSave();
+    save.replay!.log.v = 1;
+    h.game.loadSave(save);
+    expect(h.game.legacyRotation).toBe(true);
+    loadBoard(h.game, [...empty(4), '.....│....', ...empty(15)]);
+    const piece = setPiece(h.game, LONG_STRAIGHT, 0, 4, 4);
+    h.game.rotatePiece(-1);
+    expect([piece.rotation, piece.x, piece.y]).toEqual([1, 4, 4]);
+    expect(h.game.getReplayLog()!.actions.filter((a) => a.a === 'rotate')).toHaveLength(3);
+  });
+});
+
+describe('seeded spawns', () => {
+  const spawnSequence = (seed: number) => {
+    const h = createHeadlessGame({ seed });
+    const seq: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      const p = h.game.state.currentPiece!;
+      seq.push(`${PIECE_SHAPES.indexOf(p.shapes)}:${p.rotation}@${p.x},${p.y}`);
+      h.game.board.reset();
+      h.game.spawnPiece();
+    }
+    return seq;
+  };
+
+  it('repeats the same spawn sequence for the same seed', () => {
+    expect(spawnSequence(1234)).toEqual(spawnSequence(1234));
+  });
+
+  it('produces a different sequence for a different seed', () => {
+    expect(spawnSequence(1234)).not.toEqual(spawnSequence(4321));
+  });
+
+  it('spawns every piece fully inside the board', () => {
+    const h = createHeadlessGame({ seed: 99 });
+    for (let i = 0; i < 200; i++) {
+      for (const c of pieceCells(h.game.state.currentPiece!)) {
+        expect(c.x).toBeGreaterThanOrEqual(0);
+        expect(c.x).toBeLessThan(h.game.board.width);
+        expect(c.y).toBeGreaterThanOrEqual(0);
+        expect(c.y).toBeLessThan(h.game.board.height);
+      }
+      h.game.spawnPiece();
+    }
+  });
+});
+
+describe('preview queue', () => {
+  const specOf = (p: Piece) => ({ shapeIndex: PIECE_SHAPES.indexOf(p.shapes), rotation: p.rotation, x: p.x, y: p.y });
+
+  it('spawns the piece that was shown next', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    expect(h.game.state.nextPieces).toHaveLength(h.game.state.previewCount);
+    for (let i = 0; i < 10; i++) {
+      const next = h.game.state.nextPieces[0];
+      h.game.spawnPiece();
+      expect(specOf(h.game.state.currentPiece!)).toEqual(next);
+      expect(h.game.state.nextPieces).toHaveLength(h.game.state.previewCount);
+    }
+  });
+
+  it('keeps the spawn sequence independent of the preview length', () => {
+    const sequence = (previewCount: number) => {
+      const h = createHeadlessGame({ start: false });
+      h.game.setPreviewCount(previewCount);
+      h.game.start({ seed: 77 });
+      const seq = [];
+      for (let i = 0; i < 10; i++) {
+        seq.push(specOf(h.game.state.currentPiece!));
+        h.game.spawnPiece();
+      }
+      return seq;
+    };
+    expect(sequence(1)).toEqual(sequence(3));
+  });
+
+  it('clamps the preview length to 1-3', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    h.game.setPreviewCount(5);
+    expect(h.game.state.previewCount).toBe(3);
+    expect(h.game.state.nextPieces).toHaveLength(3);
+    h.game.setPreviewCount(0);
+    expect(h.game.state.previewCount).toBe(1);
+  });
+});
+
+describe('hold slot', () => {
+  it('stashes the piece and spawns the next one when the slot is empty', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    const first = h.game.state.currentPiece!;
+    const next = h.game.state.nextPieces[0];
+    h.game.holdPiece();
+    expect(h.game.state.heldPiece).toEqual({ shapeIndex: PIECE_SHAPES.indexOf(first.shapes), rotation: first.rotation });
+    expect(PIECE_SHAPES.indexOf(h.game.state.currentPiece!.shapes)).toBe(next.shapeIndex);
+    expect(h.game.state.holdUsed).toBe(true);
+  });
+
+  it('swaps with the held piece at the current position, once per spawn', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    setPiece(h.game, SMALL_CORNER, 2, 4, 4);
+    h.game.holdPiece();
+    setPiece(h.game, SHORT_STRAIGHT, 1, 6, 7);
+    h.game.state.holdUsed = false;
+    h.game.holdPiece();
+    const p = h.game.state.currentPiece!;
+    expect([PIECE_SHAPES.indexOf(p.shapes), p.rotation, p.x, p.y]).toEqual([SMALL_CORNER, 2, 6, 7]);
+    expect(h.game.state.heldPiece).toEqual({ shapeIndex: SHORT_STRAIGHT, rotation: 1 });
+    // a second swap before the next spawn is ignored
+    h.game.holdPiece();
+    expect(h.game.state.currentPiece).toBe(p);
+    h.game.placePiece();
+    expect(h.game.state.holdUsed).toBe(false);
+  });
+
+  it('keeps a swapped-in piece inside the board', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    setPiece(h.game, 10, 0, 0, 0); // graffl (3x3)
+    h.game.holdPiece();
+    setPiece(h.game, SMALL_CORNER, 0, 9, 19);
+    h.game.state.holdUsed = false;
+    h.game.holdPiece();
+    for (const c of pieceCells(h.game.state.currentPiece!)) {
+      expect(c.x).toBeLessThan(10);
+      expect(c.y).toBeLessThan(20);
+    }
+  });
+
+  it('resets the timer', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    h.tick(5000);
+    h.game.holdPiece();
+    expect(h.game.state.timerRemaining).toBe(TIMER);
+    h.tick(1000);
+    expect(h.game.state.timerRemaining).toBe(TIMER - 1000);
+  });
+});
+
+describe('difficulty levels', () => {
+  // close one loop with a Honeynut Loop and let the removal finish
+  const closeLoop = (h: ReturnType<typeof createHeadlessGame>) => {
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+  };
+
+  it.each(DIFFICULTIES.map((d) => d.id))('starts %s at level 1 with its timer', (id) => {
+    const h = createHeadlessGame({ seed: 1, difficulty: id });
+    const d = getDifficulty(id);
+    expect(h.game.state.level).toBe(1);
+    expect(h.game.state.timerDuration).toBe(d.timerStart);
+    expect(h.game.state.timerRemaining).toBe(d.timerStart);
+  });
+
+  it('advances a level every few closed loops and shortens the timer', () => {
+    const h = createHeadlessGame({ seed: 1, difficulty: 'normal' });
+    const d = getDifficulty('normal');
+    for (let i = 0; i < d.loopsPerLevel - 1; i++) closeLoop(h);
+    expect(h.game.state.level).toBe(1);
+    closeLoop(h);
+    expect(h.game.state.level).toBe(2);
+    expect(h.game.state.loopsClosed).toBe(d.loopsPerLevel);
+    expect(h.game.state.timerDuration).toBe(d.timerStart - d.timerStep);
+    expect(h.game.state.timerRemaining).toBe(d.timerStart - d.timerStep);
+    expect(popupTexts(h.game)).toContain('level 2');
+  });
+
+  it('never goes below the minimum timer', () => {
+    const d = getDifficulty('insane');
+    expect(timerForLevel(d, 1000)).toBe(d.timerMin);
+  });
+
+  it('keeps level and progress across save and restore', () => {
+    const h = createHeadlessGame({ seed: 1, difficulty: 'insane' });
+    for (let i = 0; i < 5; i++) closeLoop(h);
+    h.game.saveState();
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect(restored.state.difficultyId).toBe('insane');
+    expect(restored.state.loopsClosed).toBe(5);
+    expect(restored.state.level).toBe(h.game.state.level);
+    expect(restored.state.timerDuration).toBe(h.game.state.timerDuration);
+  });
+});
+
+describe('board size', () => {
+  it.each([
+    [6, 10],
+    [14, 24],
+    [20, 30],
+  ])('starts on a %ix%i board and spawns pieces inside it', (width, height) => {
+    const h = createHeadlessGame({ seed: 3, boardWidth: width, boardHeight: height });
+    expect(h.game.board.grid).toHaveLength(height);
+    expect(h.game.board.grid.every((row) => row.length === width)).toBe(true);
+    for (let i = 0; i < 30; i++) {
+      for (const c of pieceCells(h.game.state.currentPiece!)) {
+        expect(c.x).toBeGreaterThanOrEqual(0);
+        expect(c.x).toBeLessThan(width);
+        expect(c.y).toBeGreaterThanOrEqual(0);
+        expect(c.y).toBeLessThan(height);
+      }
+      h.game.spawnPiece();
+    }
+  });
+
+  it('clamps sizes outside the supported range', () => {
+    const h = createHeadlessGame({ seed: 3, boardWidth: 2, boardHeight: 99 });
+    expect(h.game.board.width).toBe(6);
+    expect(h.game.board.height).toBe(30);
+  });
+
+  it('keeps the size for a restart without options and records it in the replay log', () => {
+    const h = createHeadlessGame({ seed: 3, boardWidth: 8, boardHeight: 14 });
+    h.game.start();
+    expect([h.game.board.width, h.game.board.height]).toEqual([8, 14]);
+    expect(h.game.getReplayLog()).toMatchObject({ width: 8, height: 14 });
+  });
+
+  it('restores a non-default board size', () => {
+    const h = createHeadlessGame({ seed: 3, boardWidth: 12, boardHeight: 16 });
+    h.game.saveState();
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect([restored.board.width, restored.board.height]).toEqual([12, 16]);
+    expect(boardToRows(restored.board)).toEqual(boardToRows(h.game.board));
+  });
+});
+
+describe('save and restore', () => {
+  it('restores the board, score, piece and spawn sequence', () => {
+    const h = createHeadlessGame({ seed: 5 });
+    setPiece(h.game, SMALL_CORNER, 0, 2, 2);
+    h.game.placePiece();
+    h.game.holdPiece();
+    h.game.state.score = 42;
+    h.game.saveState();
+
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect(restored.restored).toBe(true);
+    expect(restored.state.score).toBe(42);
+    expect(restored.state.seed).toBe(5);
+    expect(boardToRows(restored.board)).toEqual(boardToRows(h.game.board));
+    const a = restored.state.currentPiece!;
+    const b = h.game.state.currentPiece!;
+    expect([a.shapes, a.rotation, a.x, a.y]).toEqual([b.shapes, b.rotation, b.x, b.y]);
+
+    expect(restored.state.nextPieces).toEqual(h.game.state.nextPieces);
+    expect(restored.state.heldPiece).toEqual(h.game.state.heldPiece);
+    expect(restored.state.holdUsed).toBe(true);
+    h.game.spawnPiece();
+    restored.spawnPiece();
+    expect(restored.state.holdUsed).toBe(false);
+    expect(restored.state.currentPiece!.shapes).toBe(h.game.state.currentPiece!.shapes);
+    expect(restored.state.currentPiece!.x).toBe(h.game.state.currentPiece!.x);
+  });
+});
+
+describe('game duration', () => {
+  it('leaves out the time spent paused, also across a restore', () => {
+    const h = createHeadlessGame({ seed: 5 });
+    h.tick(1000);
+    h.game.pause();
+    h.tick(60000);
+    h.game.saveState();
+
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    h.tick(60000);
+    restored.resume();
+    h.clock.advance(500);
+    let duration = 0;
+    restored.onEvent((e) => {
+      if (e.type === 'gameOver') duration = e.duration;
+    });
+    restored.end();
+    expect(duration).toBe(1500);
+    const log = restored.getReplayLog()!;
+    expect(log.duration).toBe(1500);
+    const pause = log.actions.findIndex((a) => a.a === 'pause');
+    expect(log.actions[pause + 1]).toEqual({ t: 1000, a: 'resume' });
+  });
+});
@@ -1,37 +1,124 @@
 import { Board, CELL_EMPTY } from './board';
-import { storageGet, storageSet } from './storage';
-import { Piece, PIECE_SHAPES } from './piece';
+import { clampToBoard, Piece, PIECE_SHAPES, shapeBounds } from './piece';
+import type { PieceSpec } from './piece';
+import { randomSeed } from './random';
+import type { Rng, RngFactory } from './random';
+import type { Clock, KeyValueStorage, Platform } from './platform';
+import type { ReplayEvent, ReplayLog } from './replay';
+import { createRandomizer } from './randomizer';
+import type { PieceRandomizer } from './randomizer';
+import { DEFAULT_MODE_ID, getMode } from './modes';
+import { DEFAULT_DIFFICULTY_ID, getDifficulty, levelForLoops, timerForLevel } from './difficulty';
+import type { DifficultyId } from './difficulty';
+import { normalizeRules } from './rules';
+import type { GameRules } from './rules';
+import { Leaderboard } from './leaderboard';
+import type { LeaderboardEntry } from './leaderboard';
+import { GameEventBus } from './gameEvents';
+import type { GameEvent, GameEventListener, ScoreReason } from './gameEvents';
+import { attachHaptics, attachPersistence, attachPopups } from './gameEffects';
+import { SAVE_VERSION } from './saveFormat';
+import type { SaveData } from './saveFormat';
+import { AUTO_SLOT, SaveSlots } from './saveSlots';
 
 export type GameState = {
   score: number;
   highScores: number[];
+  // seed of the piece generator for the current game
+  seed?: number;
+  // id of the game mode (see modes.ts)
+  modeId: string;
+  // difficulty preset (see difficulty.ts), current level (from 1) and loops closed this game
+  difficultyId: DifficultyId;
+  level: number;
+  loopsClosed: number;
   isRunning: boolean;
   isGameOver?: boolean;
   paused?: boolean;
   board: Board;
   currentPiece: Piece | null;
+  // upcoming pieces, next one first (generated ahead from the seeded RNG)
+  nextPieces: PieceSpec[];
+  // how many upcoming pieces are generated ahead and shown (1-3)
+  previewCount: number;
+  // piece stashed in the hold slot (position is taken from the piece it replaces)
+  heldPiece: { shapeIndex: number; rotation: number } | null;
+  // hold can be used once per spawned piece
+  holdUsed: boolean;
   // timer in milliseconds remaining
   timerRemaining?: number;
   timerDuration?: number;
   // whether restarting after game over is currently allowed
   canRestart?: boolean;
   // Optional fields to trigger the double-board flash animation
-  doubleFlashStart?: number; // performance.now() ms when flash started
+  doubleFlashStart?: number; // clock.now() ms when flash started
   doubleFlashDuration?: number; // total duration in ms
   doubleFlashCount?: number; // number of flashes to perform
   // HUD popups for transient score animations
   popups?: { text: string; boardX?: number; boardY?: number; start: number; duration: number; kind?: 'tile' | 'global'; color?: string }[];
 };
 
-// ...existing code...
+// Options for Game.start(). Rules left out keep the previous game's value;
+// the seed is random when omitted.
+export type StartOptions = Partial<Omit<GameRules, 'difficulty'>> & {
+  // replay a known spawn sequence
+  seed?: number;
+  // difficulty preset id
+  difficulty?: string;
+};
+
+// What placing the hovering piece would do (see Game.placementPreview)
+export type PlacementPreview =
+  // it goes down, closing these loop tiles (none if it closes no loop) for
+  // payout points in all, board-clear doubling included
+  | { kind: 'valid'; loop: { x: number; y: number }[]; payout: number; clearsBoard: boolean }
+  // it can't go down: these of its tiles are off the board or taken
+  | { kind: 'blocked'; collisions: { x: number; y: number }[] }
+  // it takes the tiles it matches away and halves the score; payout is the
+  // change (a loss unless the board ends up empty and doubles)
+  | { kind: 'exactMatch'; payout: number };
+
+// The timer counts the last seconds down out loud (timerWarning events)
+const TIMER_WARNING_SECONDS = 3;
+
+// Offsets tried, nearest first, when a turned piece doesn't fit where it is
+// (for clockwise turns; counter-clockwise ones mirror them left to right)
+const ROTATION_KICKS: [number, number][] = [
+  [0, 0],
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+  [-1, -1],
+  [1, -1],
+  [-1, 1],
+  [1, 1],
+  [-2, 0],
+  [2, 0],
+  [0, -2],
+  [0, 2],
+];
+
+export const MIN_PREVIEW = 1;
+export const MAX_PREVIEW = 3;
+const DEFAULT_PREVIEW = 2;
 
+function clampPreview(count: number): number {
+  if (!Number.isFinite(count)) return DEFAULT_PREVIEW;
+  return Math.max(MIN_PREVIEW, Math.min(MAX_PREVIEW, Math.round(count)));
+}
+
+// Core game rules. All environment access (time, timers, persistence,
+// vibration, randomness) goes through the injected Platform, so the engine
+// runs unchanged in the browser (see browserPlatform.ts) and in Node
+// (see headless.ts).
 export class Game {
   state: GameState;
   board: Board;
   currentPiece: Piece | null;
-  // Timer settings
-  private timerDuration = 9000; // 9 seconds
-  private lastTimerTick = 0; // ms
+  // Timer settings (per-level duration, see difficulty.ts)
+  private timerDuration = timerForLevel(getDifficulty(DEFAULT_DIFFICULTY_ID), 1);
+  private lastTimerTick: number | null = null; // ms, null until the timer first runs
   // loop removal animation state
   private loopRemoval: {
     active: boolean;
@@ -42,243 +129,408 @@ export class Game {
     pointsPerTile?: number;
     exactMatch?: boolean;
     anchor?: { x: number; y: number };
+    payout?: number; // points awarded so far by this removal
   };
   private restartTimeoutId: number | null = null;
-  
+  // Injected environment services
+  private clock: Clock;
+  private storage: KeyValueStorage;
+  // Seedable piece generator (recreated with a new seed on every start)
+  private rngFactory: RngFactory;
+  private rng: Rng;
+  // Chooses the next shape; set by the game mode
+  private randomizer: PieceRandomizer = createRandomizer('uniform');
+  // Per-mode high-score tables; state.highScores mirrors the current mode's scores
+  readonly leaderboard: Leaderboard;
+  // Autosave and the player's save slots
+  readonly saves: SaveSlots;
+  // set once the finished game's score went into the leaderboard
+  private scoreRecorded = false;
+  // Everything the game does besides its rules (vibration, popups, saving,
+  // stats...) subscribes here; see gameEvents.ts
+  readonly events = new GameEventBus();
+  // Action log of the current game (see replay.ts) and the clock time it
+  // started at, moved forward by the time spent paused
+  private replayLog: ReplayLog | null = null;
+  private recordStart = 0;
+  private pausedAt: number | null = null;
+  // ms between two tiles of a loop removal (a setting; applies from the next removal)
+  removalInterval = 150;
+  // Set on games driven by a ReplayPlayer: nothing is recorded and the timer
+  // never auto-drops on its own (recorded autoDrop actions do that instead).
+  replaying = false;
+  // Rotate the way games recorded in replay log v1 did (see rotateLegacy), so
+  // those logs and the saved games that carry them still play back the same
+  legacyRotation = false;
 
-  constructor() {
+  constructor(platform: Platform) {
+    this.clock = platform.clock;
+    this.storage = platform.storage;
+    attachHaptics(this.events, platform.haptics);
+    attachPopups(this.events, this, () => this.clock.now());
+    attachPersistence(this.events, this);
+    this.rngFactory = platform.rngFactory;
+    this.rng = this.rngFactory(randomSeed());
     this.board = new Board();
     this.currentPiece = null;
-  this.loopRemoval = { active: false, cells: [], index: 0, lastTime: 0, interval: 150, pointsPerTile: 1 };
+  this.loopRemoval = { active: false, cells: [], index: 0, lastTime: 0, interval: this.removalInterval, pointsPerTile: 1 };
     this.state = {
       score: 0,
       highScores: [],
       isRunning: false,
       board: this.board,
       currentPiece: this.currentPiece,
+      nextPieces: [],
+      previewCount: DEFAULT_PREVIEW,
+      heldPiece: null,
+      holdUsed: false,
       isGameOver: false,
       timerRemaining: this.timerDuration,
       timerDuration: this.timerDuration,
       canRestart: true,
+      seed: this.rng.seed,
+      modeId: DEFAULT_MODE_ID,
+      difficultyId: DEFAULT_DIFFICULTY_ID,
+      level: 1,
+      loopsClosed: 0,
     };
-  this.loadHighScoreFromStorage();
-  // Attempt to load saved game state from localStorage
-  this.restored = false;
-  try {
-    if (this.loadState()) {
-      this.restored = true;
-    }
-  } catch (e) {
-    // ignore load errors
-  }
-  // Ensure we persist on unload
-  try {
-    window.addEventListener('beforeunload', () => this.saveState());
-  } catch (e) {}
+  this.leaderboard = new Leaderboard(this.storage);
+  this.saves = new SaveSlots(this.storage);
+  // Attempt to load saved game state from storage
+  this.restored = this.loadState();
+  this.refreshHighScores();
   // Do not spawn a piece here; startGame will handle it
   }
 
   // Flag set when a saved state was successfully restored
   restored: boolean = false;
+  // Why the autosave could not be loaded (null when it loaded or there was none)
+  loadProblem: string | null = null;
+  // Cleared while another tab owns the game (see tabLock.ts); the autosave
+  // slot is then left alone
+  autosave = true;
 
-  // Save the current full game state into localStorage
+  // Save the current full game state into the autosave slot
   saveState() {
+    if (!this.autosave) return;
     try {
-      const key = 'double_save_v1';
-      const payload: any = { version: 1 };
-      payload.board = { width: this.board.width, height: this.board.height, grid: this.board.grid };
-      payload.state = {
-        score: this.state.score,
-        highScores: this.state.highScores,
-        isRunning: this.state.isRunning,
-        isGameOver: this.state.isGameOver,
-        paused: this.state.paused,
-        timerRemaining: this.state.timerRemaining,
-        timerDuration: this.state.timerDuration,
-        popups: this.state.popups,
-      };
-      // currentPiece: store shape index, rotation, x, y
-      if (this.currentPiece) {
-        const shapeIndex = PIECE_SHAPES.findIndex((s) => s === this.currentPiece!.shapes);
-        payload.currentPiece = { shapeIndex, rotation: this.currentPiece.rotation, x: this.currentPiece.x, y: this.currentPiece.y };
-      } else {
-        payload.currentPiece = null;
-      }
-      // loopRemoval state
-      payload.loopRemoval = {
-        active: this.loopRemoval.active,
-        cells: this.loopRemoval.cells,
-        index: this.loopRemoval.index,
-        interval: this.loopRemoval.interval,
-        pointsPerTile: this.loopRemoval.pointsPerTile,
-        exactMatch: this.loopRemoval.exactMatch,
-        anchor: this.loopRemoval.anchor,
-      };
-  storageSet(key, JSON.stringify(payload));
+      this.saves.write(AUTO_SLOT, this.toSave());
     } catch (e) {
       // ignore storage errors
     }
   }
 
-  // Load saved state from localStorage. Returns true if a valid save was loaded.
+  // Snapshot of the full game state in the current save format
+  toSave(): SaveData {
+    const lr = this.loopRemoval;
+    const piece = this.currentPiece;
+    return {
+      version: SAVE_VERSION,
+      savedAt: new Date().toISOString(),
+      rng: { seed: this.rng.seed, state: this.rng.getState() },
+      randomizer: { kind: this.randomizer.kind, state: this.randomizer.getState() },
+      replay: this.replayLog ? { log: this.replayLog, elapsed: this.playTime() } : null,
+      board: { width: this.board.width, height: this.board.height, grid: this.board.grid.map((row) => row.slice()) },
+      state: {
+        score: this.state.score,
+        modeId: this.state.modeId,
+        difficultyId: this.state.difficultyId,
+        loopsClosed: this.state.loopsClosed,
+        isRunning: this.state.isRunning,
+        isGameOver: !!this.state.isGameOver,
+        paused: !!this.state.paused,
+        timerRemaining: this.state.timerRemaining ?? this.timerDuration,
+        nextPieces: this.state.nextPieces,
+        previewCount: this.state.previewCount,
+        heldPiece: this.state.heldPiece,
+        holdUsed: this.state.holdUsed,
+      },
+      currentPiece: piece ? { shapeIndex: PIECE_SHAPES.indexOf(piece.shapes), rotation: piece.rotation, x: piece.x, y: piece.y } : null,
+      loopRemoval: {
+        active: lr.active,
+        cells: lr.cells,
+        index: lr.index,
+        interval: lr.interval,
+        pointsPerTile: lr.pointsPerTile ?? 1,
+        exactMatch: !!lr.exactMatch,
+        anchor: lr.anchor ?? null,
+        payout: lr.payout ?? 0,
+      },
+    };
+  }
+
+  // Load the autosave. Returns true if a valid save was loaded; a save that
+  // exists but can't be loaded is left in place and explained in loadProblem.
   loadState(): boolean {
-    try {
-      const key = 'double_save_v1';
-  const raw = storageGet(key);
-      if (!raw) return false;
-      const payload = JSON.parse(raw);
-      if (!payload || payload.version !== 1) return false;
-      // restore board
-      if (payload.board && Array.isArray(payload.board.grid)) {
-        this.board.width = payload.board.width || this.board.width;
-        this.board.height = payload.board.height || this.board.height;
-        this.board.grid = payload.board.grid;
-      }
-      // restore state fields
-      const s = payload.state || {};
-      this.state.score = s.score || 0;
-      this.state.highScores = s.highScores || this.state.highScores;
-      this.state.isRunning = !!s.isRunning;
-      this.state.isGameOver = !!s.isGameOver;
-      this.state.paused = !!s.paused;
-      this.state.timerRemaining = typeof s.timerRemaining === 'number' ? s.timerRemaining : this.timerDuration;
-      this.state.timerDuration = typeof s.timerDuration === 'number' ? s.timerDuration : this.timerDuration;
-      this.state.popups = s.popups || [];
-      // restore currentPiece
-      if (payload.currentPiece) {
-        const cp = payload.currentPiece;
-        const si = cp.shapeIndex >= 0 && cp.shapeIndex < PIECE_SHAPES.length ? cp.shapeIndex : 0;
-        const shape = PIECE_SHAPES[si];
-        this.currentPiece = new Piece(shape, cp.x || 0, cp.y || 0);
-        this.currentPiece.rotation = cp.rotation || 0;
-        this.state.currentPiece = this.currentPiece;
-      } else {
-        this.currentPiece = null;
-        this.state.currentPiece = null;
-      }
-      // restore loopRemoval
-      if (payload.loopRemoval) {
-        const lr = payload.loopRemoval;
-        this.loopRemoval.active = !!lr.active;
-        this.loopRemoval.cells = lr.cells || [];
-        this.loopRemoval.index = lr.index || 0;
-        this.loopRemoval.interval = lr.interval || this.loopRemoval.interval;
-        this.loopRemoval.pointsPerTile = lr.pointsPerTile;
-        this.loopRemoval.exactMatch = !!lr.exactMatch;
-        this.loopRemoval.anchor = lr.anchor;
-        // reset lastTime so animation resumes from now
-        this.loopRemoval.lastTime = performance.now();
-      }
-      // reset last timer tick and continue
-      this.lastTimerTick = performance.now();
-      return true;
-    } catch (e) {
+    const result = this.saves.read(AUTO_SLOT);
+    if (!result) return false;
+    if (!result.ok) {
+      this.loadProblem = result.reason;
       return false;
     }
+    this.loadSave(result.save);
+    return true;
   }
 
-  // Small vibration helper (wrap navigator.vibrate safely)
-  private vibrate(pattern: number | number[] = 30) {
-    try {
-      if (typeof navigator !== 'undefined' && 'vibrate' in navigator && typeof (navigator as any).vibrate === 'function') {
-        (navigator as any).vibrate(pattern);
-      }
-    } catch (e) {
-      // ignore on platforms that don't support vibration
+  // Replace the game with a (validated) save
+  loadSave(save: SaveData) {
+    this.board.width = save.board.width;
+    this.board.height = save.board.height;
+    this.board.grid = save.board.grid.map((row) => row.slice());
+    // restore piece generator so the spawn sequence continues where it left off
+    this.rng = this.rngFactory(save.rng.seed);
+    this.rng.setState(save.rng.state);
+    this.state.seed = this.rng.seed;
+    // restore game mode and its randomizer state (e.g. remaining bag)
+    const s = save.state;
+    const mode = getMode(s.modeId);
+    this.state.modeId = mode.id;
+    this.randomizer = createRandomizer(mode.randomizer, mode.weights);
+    if (save.randomizer.kind === mode.randomizer) this.randomizer.setState(save.randomizer.state);
+    // restore the action log; recording continues from the saved game time
+    this.replayLog = save.replay ? save.replay.log : null;
+    this.legacyRotation = save.replay?.log.v === 1;
+    this.recordStart = this.clock.now() - (save.replay ? save.replay.elapsed : 0);
+    this.state.score = s.score;
+    this.state.isRunning = s.isRunning;
+    this.state.isGameOver = s.isGameOver;
+    this.state.paused = s.paused;
+    this.pausedAt = s.paused ? this.clock.now() : null;
+    // level and timer length follow from the difficulty and loops closed
+    const difficulty = getDifficulty(s.difficultyId);
+    this.state.difficultyId = difficulty.id;
+    this.state.loopsClosed = s.loopsClosed;
+    this.state.level = levelForLoops(difficulty, s.loopsClosed);
+    this.timerDuration = timerForLevel(difficulty, this.state.level);
+    this.state.timerRemaining = Math.min(s.timerRemaining, this.timerDuration);
+    this.state.timerDuration = this.timerDuration;
+    this.state.popups = [];
+    this.state.previewCount = clampPreview(s.previewCount);
+    this.state.heldPiece = s.heldPiece;
+    this.state.holdUsed = s.holdUsed;
+    this.state.nextPieces = s.nextPieces.slice(0, this.state.previewCount);
+    if (save.currentPiece) {
+      const cp = save.currentPiece;
+      this.currentPiece = new Piece(PIECE_SHAPES[cp.shapeIndex], cp.x, cp.y);
+      this.currentPiece.rotation = cp.rotation;
+    } else {
+      this.currentPiece = null;
     }
+    this.state.currentPiece = this.currentPiece;
+    const lr = save.loopRemoval;
+    this.loopRemoval = {
+      ...lr,
+      cells: lr.cells.slice(),
+      anchor: lr.anchor ?? undefined,
+      // animation resumes from now
+      lastTime: this.clock.now(),
+    };
+    // reset last timer tick and continue
+    this.lastTimerTick = this.clock.now();
+    this.scoreRecorded = s.isGameOver;
+    this.refreshHighScores();
   }
 
-  // Load high score from localStorage if present
-  private loadHighScoreFromStorage() {
-    try {
-  const v = storageGet('double_high');
-      if (v !== null) {
-        const n = parseInt(v, 10);
-        if (!Number.isNaN(n)) this.state.highScores = [n];
-      }
-    } catch (e) {
-      // ignore
-    }
+  // Save the game into one of the player's slots
+  saveToSlot(name: string) {
+    this.saves.write(name, this.toSave());
+  }
+
+  // Continue a game from a player slot; it becomes the autosaved game
+  loadSlot(name: string): boolean {
+    const result = this.saves.read(name);
+    if (!result || !result.ok) return false;
+    this.loadSave(result.save);
+    this.loadProblem = null;
+    this.saveState();
+    return true;
+  }
+
+  // Recovery from a damaged autosave: go back to the save before it
+  restoreBackup(): boolean {
+    if (!this.saves.restoreBackup(AUTO_SLOT)) return false;
+    this.loadProblem = null;
+    return this.loadState();
+  }
+
+  // Append an action to the replay log (timestamp relative to game start)
+  private record(event: ReplayEvent) {
+    if (!this.replayLog || this.replaying) return;
+    this.replayLog.actions.push({ t: Math.round(this.playTime()), ...event });
+  }
+
+  // Time played in the current game, not counting pauses
+  private playTime(): number {
+    return (this.pausedAt ?? this.clock.now()) - this.recordStart;
+  }
+
+  // Action log of the current (or just finished) game
+  getReplayLog(): ReplayLog | null {
+    return this.replayLog;
+  }
+
+  // Follow every game event (see gameEvents.ts). Returns a function that unsubscribes.
+  onEvent(listener: GameEventListener): () => void {
+    return this.events.onAny(listener);
+  }
+
+  private emit(event: GameEvent) {
+    this.events.emit(event);
+  }
+
+  // Mirror the current mode's leaderboard scores into state (for the HUD)
+  private refreshHighScores() {
+    this.state.highScores = this.leaderboard.entries(this.state.modeId).map((e) => e.score);
+  }
+
+  // True after a game whose score earns a place on its mode's leaderboard,
+  // until it has been recorded with recordHighScore()
+  canRecordHighScore(): boolean {
+    return !!this.state.isGameOver && !this.replaying && !this.scoreRecorded && this.leaderboard.qualifies(this.state.modeId, this.state.score);
+  }
+
+  // Put the finished game on the leaderboard under the given name.
+  // Returns its rank (0-based) or -1 if it doesn't qualify.
+  recordHighScore(name: string): number {
+    if (!this.canRecordHighScore()) return -1;
+    this.scoreRecorded = true;
+    this.leaderboard.lastName = name;
+    const rank = this.leaderboard.add(this.leaderboardEntry(name));
+    this.refreshHighScores();
+    return rank;
   }
 
-  start() {
+  // Leaderboard entry describing the current (finished) game
+  leaderboardEntry(name: string): LeaderboardEntry {
+    return {
+      name,
+      score: this.state.score,
+      date: this.replayLog?.date ?? new Date().toISOString(),
+      mode: this.state.modeId,
+      difficulty: this.state.difficultyId,
+      width: this.board.width,
+      height: this.board.height,
+      seed: this.rng.seed,
+      duration: this.replayLog?.duration ?? 0,
+    };
+  }
+
+
+  // Start a new game. Pass a seed to replay a known spawn sequence; otherwise
+  // a fresh random seed is used. The mode defaults to the previous game's.
+  start(options: StartOptions = {}) {
     // Don't allow starting if a recent game-over restart cooldown is active
     if (this.state.isGameOver && this.state.canRestart === false) return;
+    this.rng = this.rngFactory(typeof options.seed === 'number' ? options.seed : randomSeed());
+    this.state.seed = this.rng.seed;
+    const mode = getMode(options.mode ?? this.state.modeId);
+    this.state.modeId = mode.id;
+    this.randomizer = createRandomizer(mode.randomizer, mode.weights);
+    this.scoreRecorded = false;
+    this.refreshHighScores();
+    // board size (clamped to the supported range) and preview length
+    const size = normalizeRules({ boardWidth: options.boardWidth ?? this.board.width, boardHeight: options.boardHeight ?? this.board.height });
+    this.board.width = size.boardWidth;
+    this.board.height = size.boardHeight;
+    if (typeof options.previewCount === 'number') this.state.previewCount = clampPreview(options.previewCount);
+    const difficulty = getDifficulty(options.difficulty ?? this.state.difficultyId);
+    this.state.difficultyId = difficulty.id;
+    this.state.loopsClosed = 0;
+    this.state.level = 1;
+    this.timerDuration = timerForLevel(difficulty, 1);
     this.state.isRunning = true;
     this.state.score = 0;
     this.board.reset();
+    this.state.nextPieces = [];
+    this.state.heldPiece = null;
+    this.state.holdUsed = false;
     this.state.isGameOver = false;
     this.state.timerRemaining = this.timerDuration;
     this.state.timerDuration = this.timerDuration;
-    this.lastTimerTick = performance.now();
+    this.lastTimerTick = this.clock.now();
+    this.recordStart = this.clock.now();
+    this.pausedAt = null;
+    this.legacyRotation = false;
+    this.replayLog = this.replaying ? null : { v: 2, seed: this.rng.seed, mode: mode.id, difficulty: difficulty.id, width: this.board.width, height: this.board.height, preview: this.state.previewCount, date: new Date().toISOString(), actions: [] };
+    this.emit({ type: 'gameStarted', mode: mode.id, width: this.board.width, height: this.board.height, seed: this.rng.seed });
     this.spawnPiece();
-    this.saveState();
   }
 
   pause() {
     if (this.state.isRunning && !this.state.paused) {
+      this.record({ a: 'pause' });
       this.state.paused = true;
+      this.pausedAt = this.clock.now();
       this.state.isRunning = false;
-      this.saveState();
+      this.emit({ type: 'paused' });
     }
   }
 
   resume() {
     if (this.state.paused) {
+      // the pause doesn't count towards the game's duration
+      this.recordStart += this.clock.now() - (this.pausedAt ?? this.clock.now());
+      this.pausedAt = null;
+      this.record({ a: 'resume' });
       this.state.paused = false;
       this.state.isRunning = true;
       // reset timer tick so timer doesn't jump
-      this.lastTimerTick = performance.now();
-      this.saveState();
+      this.lastTimerTick = this.clock.now();
+      this.emit({ type: 'resumed' });
     }
   }
 
   end() {
     this.state.isRunning = false;
     this.state.isGameOver = true;
+    if (this.replayLog && !this.replaying) {
+      this.replayLog.duration = Math.round(this.playTime());
+      this.replayLog.score = this.state.score;
+    }
     // Prevent restart for 2 seconds
     this.state.canRestart = false;
     if (this.restartTimeoutId !== null) {
-      window.clearTimeout(this.restartTimeoutId);
+      this.clock.clearTimeout(this.restartTimeoutId);
     }
-    this.restartTimeoutId = window.setTimeout(() => {
+    this.restartTimeoutId = this.clock.setTimeout(() => {
       this.state.canRestart = true;
       this.restartTimeoutId = null;
     }, 2000);
-    this.saveHighScore();
-      try {
-        const top = this.state.highScores[0] ?? 0;
-        storageSet('double_high', String(top));
-      } catch (e) {
-        // ignore
-      }
+    this.emit({
+      type: 'gameOver',
+      score: this.state.score,
+      duration: Math.round(this.playTime()),
+      level: this.state.level,
+      loopsClosed: this.state.loopsClosed,
+    });
   }
 
-  addScore(points: number, opts?: { boardX?: number; boardY?: number; global?: boolean }) {
-    this.state.score += points;
-    if (!this.state.popups) this.state.popups = [];
-    const sign = points >= 0 ? '+' : '';
-    const txt = `${sign}${points}`;
-    if (opts && typeof opts.boardX === 'number' && typeof opts.boardY === 'number') {
-      // Tile-attached popup
-      this.state.popups.push({ text: txt, boardX: opts.boardX, boardY: opts.boardY, start: performance.now(), duration: 900, kind: 'tile' });
-    } else {
-      // Global popup
-      this.state.popups.push({ text: txt, start: performance.now(), duration: 1000, kind: 'global' });
-    }
+  // Set the score and announce the change (popups come from the event),
+  // optionally tied to a board cell
+  private setScore(score: number, reason: ScoreReason, at?: { x: number; y: number }) {
+    const delta = score - this.state.score;
+    this.state.score = score;
+    this.emit({ type: 'scoreChanged', score, delta, reason, x: at?.x, y: at?.y });
   }
 
-  // ...popup support implemented via addScore(opts) for tile/global popups
-
-  saveHighScore() {
-    this.state.highScores.push(this.state.score);
-    this.state.highScores.sort((a, b) => b - a);
-    this.state.highScores = this.state.highScores.slice(0, 10);
+  // Change how many upcoming pieces are previewed. This sets how far ahead the
+  // sequence is generated, and the assist randomizer looks at the board when a
+  // piece is generated, so a change mid-game goes into the replay log.
+  setPreviewCount(count: number) {
+    this.state.previewCount = clampPreview(count);
+    if (!this.state.isGameOver) this.record({ a: 'preview', n: this.state.previewCount });
+    if (this.state.nextPieces.length > this.state.previewCount) {
+      // trimmed pieces are lost from the sequence, so only trim between games
+      if (!this.state.isRunning) this.state.nextPieces = this.state.nextPieces.slice(0, this.state.previewCount);
+    } else if (this.state.isRunning) {
+      this.fillPreviewQueue();
+    }
   }
 
-  spawnPiece() {
-  // Select a random piece from all available shapes
-  const idx = Math.floor(Math.random() * PIECE_SHAPES.length);
+  // Draw the next piece from the RNG: shape, position and rotation
+  private generatePiece(): PieceSpec {
+  // Select the shape with the mode's randomizer
+  const idx = this.randomizer.nextShape(this.rng, this.board);
     const shape = PIECE_SHAPES[idx];
   // Determine piece dimensions (shape is [rotation][x][y])
   const pieceWidth = shape[0].length; // number of columns (x)
@@ -286,19 +538,81 @@ export class Game {
     // Random position within board boundaries
     const maxX = this.board.width - pieceWidth;
     const maxY = this.board.height - pieceHeight;
-    const randX = Math.floor(Math.random() * (maxX + 1));
-    const randY = Math.floor(Math.random() * (maxY + 1));
+    const randX = this.rng.nextInt(maxX + 1);
+    const randY = this.rng.nextInt(maxY + 1);
   // Choose a random rotation
-  const rotation = Math.floor(Math.random() * shape.length);
-  this.currentPiece = new Piece(shape, randX, randY);
-  this.currentPiece.rotation = rotation;
-  this.state.currentPiece = this.currentPiece;
-    // Debug logging removed: new piece
+  const rotation = this.rng.nextInt(shape.length);
+    return { shapeIndex: idx, rotation, x: randX, y: randY };
+  }
+
+  private fillPreviewQueue() {
+    while (this.state.nextPieces.length < this.state.previewCount) {
+      this.state.nextPieces.push(this.generatePiece());
+    }
+  }
+
+  spawnPiece() {
+    // Take the next piece from the preview queue, then top the queue up
+    const spec = this.state.nextPieces.shift() ?? this.generatePiece();
+    this.fillPreviewQueue();
+    this.currentPiece = new Piece(PIECE_SHAPES[spec.shapeIndex], spec.x, spec.y);
+    this.currentPiece.rotation = spec.rotation;
+    this.state.currentPiece = this.currentPiece;
+    this.state.holdUsed = false;
+    this.record({ a: 'spawn', s: spec.shapeIndex, r: spec.rotation, x: spec.x, y: spec.y });
     // Reset timer when a new piece appears
     this.state.timerRemaining = this.timerDuration;
-    this.lastTimerTick = performance.now();
-    // Persist new piece + timer
-    this.saveState();
+    this.lastTimerTick = this.clock.now();
+    this.emit({ type: 'pieceSpawned', shapeIndex: spec.shapeIndex });
+  }
+
+  // Track closed loops and advance the level; a new level shortens the
+  // timer from the next piece on.
+  private countClosedLoop() {
+    this.state.loopsClosed++;
+    const difficulty = getDifficulty(this.state.difficultyId);
+    const level = levelForLoops(difficulty, this.state.loopsClosed);
+    if (level === this.state.level) return;
+    this.state.level = level;
+    this.timerDuration = timerForLevel(difficulty, level);
+    this.state.timerDuration = this.timerDuration;
+    this.emit({ type: 'levelUp', level });
+  }
+
+  // Short message in the HUD popup stack, for things outside the engine
+  // (unlocked achievements)
+  toast(text: string, color?: string) {
+    if (!this.state.popups) this.state.popups = [];
+    this.state.popups.push({ text, start: this.clock.now(), duration: 2500, kind: 'global', color });
+  }
+
+  // Stash the current piece in the hold slot. With an empty slot the next
+  // piece spawns; otherwise the held piece swaps in at the current position.
+  // Allowed once per spawn; resets the timer like a spawn does.
+  holdPiece() {
+    if (!this.currentPiece || !this.state.isRunning || this.state.holdUsed) return;
+    this.record({ a: 'hold' });
+    const current = { shapeIndex: PIECE_SHAPES.indexOf(this.currentPiece.shapes), rotation: this.currentPiece.rotation };
+    const held = this.state.heldPiece;
+    this.state.heldPiece = current;
+    if (!held) {
+      this.spawnPiece();
+      this.state.holdUsed = true;
+      this.emit({ type: 'pieceHeld', shapeIndex: current.shapeIndex, swapped: false });
+      return;
+    }
+    const piece = new Piece(PIECE_SHAPES[held.shapeIndex], this.currentPiece.x, this.currentPiece.y);
+    piece.rotation = held.rotation;
+    const pos = clampToBoard(piece.shape, this.board, piece.x, piece.y);
+    piece.x = pos.x;
+    piece.y = pos.y;
+    this.currentPiece = piece;
+    this.state.currentPiece = piece;
+    this.state.holdUsed = true;
+    // Reset timer when a new piece appears
+    this.state.timerRemaining = this.timerDuration;
+    this.lastTimerTick = this.clock.now();
+    this.emit({ type: 'pieceHeld', shapeIndex: current.shapeIndex, swapped: true });
   }
 
   movePiece(dx: number, dy: number) {
@@ -327,77 +641,131 @@ export class Game {
       }
     }
     this.currentPiece.move(dx, dy);
+    this.record({ a: 'move', dx, dy });
+    this.emit({ type: 'pieceMoved', shapeIndex: PIECE_SHAPES.indexOf(this.currentPiece.shapes), dx, dy });
   }
 
-  rotatePiece() {
+  // Move the piece to an absolute position (used by drag controls)
+  movePieceTo(x: number, y: number) {
     if (!this.currentPiece) return;
-    // remember old state so we can revert if needed
-    const oldRotation = this.currentPiece.rotation;
-    const oldX = this.currentPiece.x;
-    const oldY = this.currentPiece.y;
+    const dx = x - this.currentPiece.x;
+    const dy = y - this.currentPiece.y;
+    if (dx === 0 && dy === 0) return;
+    this.movePiece(dx, dy);
+  }
 
-    // perform rotation
-    this.currentPiece.rotate();
+  // Turn the piece clockwise (dir 1) or counter-clockwise (dir -1) about its
+  // pivot (see Piece.rotate). Where the turned piece sticks out of the board
+  // it is pushed back in; then the kick offsets are tried for the nearest spot
+  // where it could be placed or exactly matches the board. If there is none
+  // it stays where it was pushed, hovering over the tiles as usual.
+  rotatePiece(dir: 1 | -1 = 1) {
+    const piece = this.currentPiece;
+    if (!piece) return;
+    if (this.legacyRotation) {
+      // counter-clockwise was three clockwise turns back then
+      for (let i = 0; i < (dir === 1 ? 1 : 3); i++) this.rotateLegacy();
+      return;
+    }
+    const oldRotation = piece.rotation;
+    piece.rotate(dir);
+    if (piece.rotation === oldRotation) return;
 
-    // After rotation, compute occupied bounding box (ignore CELL_EMPTY)
-    const s = this.currentPiece.shape;
-    let minCol = Number.POSITIVE_INFINITY;
-    let maxCol = Number.NEGATIVE_INFINITY;
-    let minRow = Number.POSITIVE_INFINITY;
-    let maxRow = Number.NEGATIVE_INFINITY;
-    for (let cx = 0; cx < s.length; cx++) {
-      for (let cy = 0; cy < s[cx].length; cy++) {
-        if (s[cx][cy] !== CELL_EMPTY) {
-          if (cx < minCol) minCol = cx;
-          if (cx > maxCol) maxCol = cx;
-          if (cy < minRow) minRow = cy;
-          if (cy > maxRow) maxRow = cy;
-        }
+    const b = shapeBounds(piece.shape)!;
+    const base = clampToBoard(piece.shape, this.board, piece.x, piece.y);
+    let spot = base;
+    for (const [kx, ky] of ROTATION_KICKS) {
+      // mirrored for counter-clockwise turns
+      const x = base.x + kx * dir;
+      const y = base.y + ky;
+      if (x + b.minCol < 0 || y + b.minRow < 0 || x + b.maxCol >= this.board.width || y + b.maxRow >= this.board.height) continue;
+      piece.x = x;
+      piece.y = y;
+      if (!this.checkPlacementCollision(piece) || this.matchesBoard(piece)) {
+        spot = { x, y };
+        break;
       }
     }
-    // If no occupied cells (shouldn't happen), revert
-    if (minCol === Number.POSITIVE_INFINITY) {
-      this.currentPiece.rotation = oldRotation;
-      return;
+    piece.x = spot.x;
+    piece.y = spot.y;
+    this.record(dir === 1 ? { a: 'rotate' } : { a: 'rotate', d: -1 });
+    this.emit({ type: 'pieceRotated', shapeIndex: PIECE_SHAPES.indexOf(piece.shapes) });
+  }
+
+  // Rotation of games recorded before replay log v2: clockwise only, about
+  // the top-left of the shape, and only the board edges were checked
+  private rotateLegacy() {
+    const piece = this.currentPiece!;
+    piece.rotation = (piece.rotation + 1) % piece.shapes.length;
+    if (!shapeBounds(piece.shape)) return;
+    const { x, y } = clampToBoard(piece.shape, this.board, piece.x, piece.y);
+    piece.x = x;
+    piece.y = y;
+    this.record({ a: 'rotate' });
+    this.emit({ type: 'pieceRotated', shapeIndex: PIECE_SHAPES.indexOf(piece.shapes) });
+  }
+
+  // Every tile of the piece lies on a board tile of the same type, so placing
+  // it would be an exact-match removal
+  matchesBoard(piece: Piece): boolean {
+    const s = piece.shape;
+    let tiles = 0;
+    for (let x = 0; x < s.length; x++) {
+      for (let y = 0; y < s[x].length; y++) {
+        if (!s[x][y]) continue;
+        tiles++;
+        const boardX = piece.x + x;
+        const boardY = piece.y + y;
+        if (boardY < 0 || boardY >= this.board.height || boardX < 0 || boardX >= this.board.width) return false;
+        if (this.board.grid[boardY][boardX] !== s[x][y]) return false;
+      }
     }
+    return tiles > 0;
+  }
 
-    // Allowed range for piece.x so occupied cols are inside [0, board.width-1]
-    const minXAllowed = -minCol;
-    const maxXAllowed = this.board.width - 1 - maxCol;
-    const minYAllowed = -minRow;
-    const maxYAllowed = this.board.height - 1 - maxRow;
-
-    // Clamp current position into allowed bounds
-    let baseX = Math.min(Math.max(this.currentPiece.x, minXAllowed), maxXAllowed);
-    let baseY = Math.min(Math.max(this.currentPiece.y, minYAllowed), maxYAllowed);
-
-    // Try small kicks around clamped position (only enforce boundaries, no board collision checks)
-    const kicks = [0, -1, 1, -2, 2];
-    let placed = false;
-    for (let dx of kicks) {
-      for (let dy of kicks) {
-        const nx = baseX + dx;
-        const ny = baseY + dy;
-        if (nx < minXAllowed || ny < minYAllowed || nx > maxXAllowed || ny > maxYAllowed) continue;
-        // Accept this position as it keeps occupied tiles inside the board
-        this.currentPiece.x = nx;
-        this.currentPiece.y = ny;
-        placed = true;
-        break;
+  // What placing the current piece where it hovers would do, for the renderer
+  // to show before the player commits; null without a piece
+  placementPreview(): PlacementPreview | null {
+    const piece = this.currentPiece;
+    if (!piece) return null;
+    const tiles: { x: number; y: number; cell: number }[] = [];
+    const s = piece.shape;
+    for (let x = 0; x < s.length; x++) {
+      for (let y = 0; y < s[x].length; y++) {
+        if (s[x][y]) tiles.push({ x: piece.x + x, y: piece.y + y, cell: s[x][y] });
       }
-      if (placed) break;
     }
+    // on a copy of the board: would the tiles taken away leave it empty?
+    const board = new Board(this.board.width, this.board.height);
+    board.grid = this.board.grid.map((row) => row.slice());
+    const emptied = (cells: { x: number; y: number }[]) => {
+      for (const c of cells) board.setCell(c.x, c.y, CELL_EMPTY);
+      return board.grid.every((row) => row.every((cell) => cell === CELL_EMPTY));
+    };
+    const score = this.state.score;
 
-    if (!placed) {
-      // revert rotation and position
-      this.currentPiece.rotation = oldRotation;
-      this.currentPiece.x = oldX;
-      this.currentPiece.y = oldY;
+    if (this.matchesBoard(piece)) {
+      const halved = Math.ceil(score / 2);
+      return { kind: 'exactMatch', payout: (emptied(tiles) ? 2 * halved : halved) - score };
     }
-    else {
-      // Provide light haptic feedback on a successful rotation
-      this.vibrate(20);
+    const collisions = tiles
+      .filter((t) => t.x < 0 || t.x >= this.board.width || t.y < 0 || t.y >= this.board.height || this.board.grid[t.y][t.x] !== CELL_EMPTY)
+      .map(({ x, y }) => ({ x, y }));
+    if (collisions.length > 0) return { kind: 'blocked', collisions };
+
+    // place it and look for loops like placeCurrentPiece does
+    for (const t of tiles) board.setCell(t.x, t.y, t.cell);
+    const loop: { x: number; y: number }[] = [];
+    for (const t of tiles) {
+      for (const c of board.detectLoop(t.x, t.y) ?? []) {
+        if (!loop.some((l) => l.x === c.x && l.y === c.y)) loop.push(c);
+      }
     }
+    // tile n of the loop scores n, and an emptied board doubles the score
+    const clearsBoard = loop.length > 0 && emptied(loop);
+    const tilePoints = (loop.length * (loop.length + 1)) / 2;
+    const payout = clearsBoard ? 2 * (score + tilePoints) - score : tilePoints;
+    return { kind: 'valid', loop, payout, clearsBoard };
   }
 
   // Only used for placement now
@@ -429,6 +797,14 @@ export class Game {
 
   placePiece() {
     if (!this.currentPiece) return;
+    this.record({ a: 'place' });
+    this.placeCurrentPiece(false);
+  }
+
+  // Placement rules shared by player placement and timer auto-drop
+  private placeCurrentPiece(auto: boolean) {
+    if (!this.currentPiece) return;
+    const shapeIndex = PIECE_SHAPES.indexOf(this.currentPiece.shapes);
     // Note: don't early-return on collision here — exact-match removals
     // should be detected first. We'll check collisions before the normal placement.
   let loopDetected = false;
@@ -481,7 +857,8 @@ export class Game {
       this.loopRemoval.cells = cellsToRemove;
       this.loopRemoval.index = 0;
       this.loopRemoval.active = true;
-      this.loopRemoval.lastTime = performance.now();
+      this.loopRemoval.lastTime = this.clock.now();
+      this.loopRemoval.interval = this.removalInterval;
       // Mark this removal as an exact-match removal so scoring logic
       // knows to apply a single halving at the end.
   // Anchor popup location near the piece center
@@ -490,15 +867,13 @@ export class Game {
       // Hide hovering piece
       this.currentPiece = null;
       this.state.currentPiece = null;
-      // Haptic feedback for removal action
-      this.vibrate([20, 10, 20]);
-  // Persist the scheduled removal and cleared hovering piece
-  this.saveState();
+      this.emit({ type: 'exactMatchRemoval', tiles: cellsToRemove.length, shapeIndex, auto });
       return;
     }
     // For normal placement (not exact-match removal), ensure there's no collision
     if (this.checkPlacementCollision(this.currentPiece)) {
       // Invalid placement, do not place
+      this.emit({ type: 'placementBlocked', shapeIndex });
       return;
     }
     // place using shape [x][y]
@@ -532,10 +907,10 @@ export class Game {
     }
     // Hide the hovering piece immediately after placement so the loop
     // is visible as a whole during the removal animation.
+    const { x: placedX, y: placedY } = this.currentPiece;
     this.currentPiece = null;
     this.state.currentPiece = null;
-    // Haptic on successful placement
-    this.vibrate(30);
+    this.emit({ type: 'piecePlaced', shapeIndex, x: placedX, y: placedY, auto });
   if (loopDetected) {
       // Deduplicate loop cells and start removal animation
       const key = (c: { x: number; y: number }) => `${c.x},${c.y}`;
@@ -551,8 +926,11 @@ export class Game {
       this.loopRemoval.cells = unique;
       this.loopRemoval.index = 0;
       this.loopRemoval.active = true;
-      this.loopRemoval.lastTime = performance.now();
+      this.loopRemoval.lastTime = this.clock.now();
+      this.loopRemoval.interval = this.removalInterval;
   this.loopRemoval.pointsPerTile = 1; // normal loop rewards 1 per tile
+      this.countClosedLoop();
+      this.emit({ type: 'loopDetected', length: unique.length, shapeIndex });
       // Score will be awarded when animation completes
       // Loop detected — start removal animation
     } else {
@@ -562,102 +940,126 @@ export class Game {
     }
   }
 
+  // Timer ran out: auto-place the current piece with a penalty. If placement
+  // collides, it's game over. If no current piece exists, also game over.
+  autoDrop(now: number) {
+    this.record({ a: 'autoDrop' });
+    if (this.currentPiece) {
+      // Auto-drop penalty: when the timer forces an auto-drop, deduct
+      // 10 points (minimum 0). This applies for any auto-drop — both
+      // exact-match removals and normal auto-placement. The deduction
+      // happens before placement/removal logic so subsequent halving
+      // (for exact-match) applies to the reduced score.
+      const beforeAuto = this.state.score || 0;
+      const at = { x: this.currentPiece.x, y: this.currentPiece.y };
+      this.emit({ type: 'autoDrop', penalty: beforeAuto - Math.max(0, beforeAuto - 10), ...at });
+      // the popup sits next to the current piece
+      this.setScore(Math.max(0, beforeAuto - 10), 'autoDrop', at);
+
+      // First, check for exact-match removal possibility (auto-removal):
+      // piece's non-empty tiles must match the board's tiles exactly.
+      const s = this.currentPiece.shape;
+      const w = s.length;
+      const h = s[0].length;
+      let nonEmptyCount = 0;
+      let exactMatch = true;
+      for (let x = 0; x < w; x++) {
+        for (let y = 0; y < h; y++) {
+          const cellType = s[x][y];
+          if (cellType) {
+            nonEmptyCount++;
+            const boardX = this.currentPiece.x + x;
+            const boardY = this.currentPiece.y + y;
+            if (
+              boardY < 0 ||
+              boardY >= this.board.height ||
+              boardX < 0 ||
+              boardX >= this.board.width
+            ) {
+              exactMatch = false;
+              break;
+            }
+            if (this.board.grid[boardY][boardX] !== cellType) {
+              exactMatch = false;
+              break;
+            }
+          }
+        }
+        if (!exactMatch) break;
+      }
+
+      if (exactMatch && nonEmptyCount > 0) {
+        // Exact-match removal on timer expiry: schedule removal and
+        // mark it as exactMatch. We no longer require a minimum score
+        // to perform this; the halving will be applied at animation end.
+        const cellsToRemove: { x: number; y: number }[] = [];
+        for (let x = 0; x < w; x++) {
+          for (let y = 0; y < h; y++) {
+            if (s[x][y]) {
+              cellsToRemove.push({ x: this.currentPiece.x + x, y: this.currentPiece.y + y });
+            }
+          }
+        }
+        this.loopRemoval.cells = cellsToRemove;
+        this.loopRemoval.index = 0;
+        this.loopRemoval.active = true;
+        this.loopRemoval.lastTime = this.clock.now();
+        this.loopRemoval.interval = this.removalInterval;
+        // Anchor popup location near the piece center
+        this.loopRemoval.anchor = { x: this.currentPiece.x, y: this.currentPiece.y };
+        this.loopRemoval.exactMatch = true;
+        const shapeIndex = PIECE_SHAPES.indexOf(this.currentPiece.shapes);
+        // Hide hovering piece
+        this.currentPiece = null;
+        this.state.currentPiece = null;
+        this.emit({ type: 'exactMatchRemoval', tiles: cellsToRemove.length, shapeIndex, auto: true });
+        // timer will be reset when spawnPiece runs after removal
+      } else {
+        // Not an exact-match removal; fall back to normal auto-place
+        if (this.checkPlacementCollision(this.currentPiece)) {
+          this.end();
+        } else {
+          this.placeCurrentPiece(true);
+          this.state.timerRemaining = this.timerDuration;
+          this.lastTimerTick = now;
+        }
+      }
+    } else {
+      this.end();
+    }
+  }
+
+  // Where removal popups go: the removal's anchor, else the board center
+  private removalAnchor(): { x: number; y: number } {
+    const anchor = this.loopRemoval.anchor;
+    return anchor ?? { x: Math.floor(this.board.width / 2), y: Math.floor(this.board.height / 2) };
+  }
+
+  // True while a loop removal animation is still handing out points
+  get removing(): boolean {
+    return this.loopRemoval.active;
+  }
+
   // Called from the render loop with current timestamp (ms)
   update(now: number) {
     // Update timer (only when running). Pause the timer while a loop removal
     // animation is active so players don't lose time during animations.
     if (this.state.isRunning && !this.state.isGameOver) {
       if (!this.loopRemoval.active) {
-        const last = this.lastTimerTick || now;
+        const last = this.lastTimerTick ?? now;
         const dt = now - last;
         this.lastTimerTick = now;
         if (typeof this.state.timerRemaining === 'number') {
+          const secondsBefore = Math.ceil(this.state.timerRemaining / 1000);
           this.state.timerRemaining = Math.max(0, this.state.timerRemaining - dt);
+          const secondsLeft = Math.ceil(this.state.timerRemaining / 1000);
+          if (secondsLeft < secondsBefore && secondsLeft >= 1 && secondsLeft <= TIMER_WARNING_SECONDS) {
+            this.emit({ type: 'timerWarning', secondsLeft });
+          }
           if (this.state.timerRemaining <= 0) {
-            // Time's up -> try to auto-place the current piece. If placement
-            // collides, it's game over. If no current piece exists, also game over.
-            if (this.currentPiece) {
-              // Auto-drop penalty: when the timer forces an auto-drop, deduct
-              // 10 points (minimum 0). This applies for any auto-drop — both
-              // exact-match removals and normal auto-placement. The deduction
-              // happens before placement/removal logic so subsequent halving
-              // (for exact-match) applies to the reduced score.
-              const beforeAuto = this.state.score || 0;
-              this.state.score = Math.max(0, beforeAuto - 10);
-              if (!this.state.popups) this.state.popups = [];
-              // Attach auto-drop popup next to the current piece
-              this.state.popups.push({ text: '-10', boardX: this.currentPiece.x, boardY: this.currentPiece.y, start: performance.now(), duration: 1000, kind: 'tile' });
-
-              // First, check for exact-match removal possibility (auto-removal):
-              // piece's non-empty tiles must match the board's tiles exactly.
-              const s = this.currentPiece.shape;
-              const w = s.length;
-              const h = s[0].length;
-              let nonEmptyCount = 0;
-              let exactMatch = true;
-              for (let x = 0; x < w; x++) {
-                for (let y = 0; y < h; y++) {
-                  const cellType = s[x][y];
-                  if (cellType) {
-                    nonEmptyCount++;
-                    const boardX = this.currentPiece.x + x;
-                    const boardY = this.currentPiece.y + y;
-                    if (
-                      boardY < 0 ||
-                      boardY >= this.board.height ||
-                      boardX < 0 ||
-                      boardX >= this.board.width
-                    ) {
-                      exactMatch = false;
-                      break;
-                    }
-                    if (this.board.grid[boardY][boardX] !== cellType) {
-                      exactMatch = false;
-                      break;
-                    }
-                  }
-                }
-                if (!exactMatch) break;
-              }
-
-              if (exactMatch && nonEmptyCount > 0) {
-                // Exact-match removal on timer expiry: schedule removal and
-                // mark it as exactMatch. We no longer require a minimum score
-                // to perform this; the halving will be applied at animation end.
-                const cellsToRemove: { x: number; y: number }[] = [];
-                for (let x = 0; x < w; x++) {
-                  for (let y = 0; y < h; y++) {
-                    if (s[x][y]) {
-                      cellsToRemove.push({ x: this.currentPiece.x + x, y: this.currentPiece.y + y });
-                    }
-                  }
-                }
-                this.loopRemoval.cells = cellsToRemove;
-                this.loopRemoval.index = 0;
-                this.loopRemoval.active = true;
-                this.loopRemoval.lastTime = performance.now();
-                // Anchor popup location near the piece center
-                this.loopRemoval.anchor = { x: this.currentPiece.x, y: this.currentPiece.y };
-                this.loopRemoval.exactMatch = true;
-                // Hide hovering piece
-                this.currentPiece = null;
-                this.state.currentPiece = null;
-                // Persist scheduled removal
-                this.saveState();
-                // timer will be reset when spawnPiece runs after removal
-              } else {
-                // Not an exact-match removal; fall back to normal auto-place
-                if (this.checkPlacementCollision(this.currentPiece)) {
-                  this.end();
-                } else {
-                  this.placePiece();
-                  this.state.timerRemaining = this.timerDuration;
-                  this.lastTimerTick = now;
-                }
-              }
-            } else {
-              this.end();
-            }
+            // Time's up -> auto-drop. Replays take auto-drops from their
+            // recorded actions instead and check them against this timer
+            if (!this.replaying) this.autoDrop(now);
           }
         }
       } else {
@@ -674,6 +1076,7 @@ export class Game {
       const c = lr.cells[lr.index];
       if (c && c.y >= 0 && c.y < this.board.height && c.x >= 0 && c.x < this.board.width) {
         this.board.setCell(c.x, c.y, CELL_EMPTY);
+        this.emit({ type: 'tileRemoved', x: c.x, y: c.y, index: lr.index });
         // For exact-match removals we do not apply per-tile scoring during
         // the animation. Instead, a single halving will be applied once
         // when the entire removal completes. For normal removals we keep
@@ -683,10 +1086,12 @@ export class Game {
           if (ppt > 0) {
             // progressive scoring: (index+1) * ppt
             const pts = (lr.index + 1) * ppt;
-            this.addScore(pts, { boardX: c.x, boardY: c.y });
+            this.setScore(this.state.score + pts, 'tile', c);
+            lr.payout = (lr.payout ?? 0) + pts;
           } else {
             // costly removal: constant negative per tile
-            this.addScore(ppt, { boardX: c.x, boardY: c.y });
+            this.setScore(this.state.score + ppt, 'tile', c);
+            lr.payout = (lr.payout ?? 0) + ppt;
           }
         }
       }
@@ -701,22 +1106,17 @@ export class Game {
         // of the current score (rounded up). This operation must happen
         // once per removal operation, not per tile.
         if (lr.exactMatch) {
-          // allow removal even when score is 0; apply halving and display
-          // a global popup showing the amount removed (oldScore - newScore)
+          // allow removal even when score is 0; the popup shows the
+          // amount removed (oldScore - newScore) near the removal anchor
           const oldScore = this.state.score || 0;
           const newScore = Math.ceil(oldScore / 2);
-          const removed = oldScore - newScore;
-          this.state.score = newScore;
-          if (!this.state.popups) this.state.popups = [];
-          // place the halving popup near the removal anchor if available
-          const ax = lr.anchor?.x ?? Math.floor(this.board.width / 2);
-          const ay = lr.anchor?.y ?? Math.floor(this.board.height / 2);
-          this.state.popups.push({ text: `-${removed}`, boardX: ax, boardY: ay, start: performance.now(), duration: 1200, kind: 'tile' });
-          // Haptic feedback for halving (distinct longer vibration)
-          this.vibrate([80]);
-          // clear the flag for future removals
-          lr.exactMatch = false;
+          lr.payout = newScore - oldScore;
+          this.setScore(newScore, 'halving', this.removalAnchor());
         }
+        this.emit({ type: 'removalFinished', points: lr.payout ?? 0, exactMatch: !!lr.exactMatch });
+        // clear the flags for future removals
+        lr.exactMatch = false;
+        lr.payout = 0;
         // If the board is completely empty after removal, double the score
         let boardEmpty = true;
         for (let yy = 0; yy < this.board.height && boardEmpty; yy++) {
@@ -729,19 +1129,9 @@ export class Game {
         }
         if (boardEmpty) {
           const old = this.state.score || 0;
-          this.state.score = old * 2;
-          if (!this.state.popups) this.state.popups = [];
-          // place the doubling popup near the removal anchor if available
-          const ax2 = lr.anchor?.x ?? Math.floor(this.board.width / 2);
-          const ay2 = lr.anchor?.y ?? Math.floor(this.board.height / 2);
-          this.state.popups.push({ text: `+${old}`, boardX: ax2, boardY: ay2, start: performance.now(), duration: 1400, kind: 'tile' });
-          // Haptic feedback for doubling (short pulse pattern)
-          this.vibrate([30, 10, 30]);
-          // Trigger double-flash animation: show double.gif centered on the
-          // board at 90% width and flash the score. Flash 3 times within 2s.
-          this.state.doubleFlashStart = performance.now();
-          this.state.doubleFlashDuration = 2000; // ms
-          this.state.doubleFlashCount = 3;
+          this.setScore(old * 2, 'doubling', this.removalAnchor());
+          // haptics and the double flash hang off this event
+          this.emit({ type: 'boardCleared', bonus: old });
         }
         // After animation completes, spawn next hovering piece
         this.spawnPiece();
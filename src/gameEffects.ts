@@ -0,0 +1,73 @@
+// gameEffects.ts
+// The game's own reactions to its events: vibration, HUD popups (with the
+// board-clear flash) and saving. Game attaches these to its event bus when it
+// is created; the app adds its own subscribers (stats, achievements) on top.
+import type { Game, GameState } from './game';
+import type { GameEventBus } from './gameEvents';
+import type { Haptics } from './platform';
+
+// Small vibration helper (haptics implementations must not throw, but be safe)
+function vibrate(haptics: Haptics, pattern: number | number[]) {
+  try {
+    haptics.vibrate(pattern);
+  } catch (e) {
+    // ignore on platforms that don't support vibration
+  }
+}
+
+export function attachHaptics(events: GameEventBus, haptics: Haptics) {
+  events.on('pieceRotated', () => vibrate(haptics, 20));
+  events.on('pieceHeld', (e) => {
+    if (e.swapped) vibrate(haptics, 20);
+  });
+  events.on('piecePlaced', () => vibrate(haptics, 30));
+  events.on('exactMatchRemoval', (e) => {
+    if (!e.auto) vibrate(haptics, [20, 10, 20]);
+  });
+  // distinct longer vibration for the halving
+  events.on('removalFinished', (e) => {
+    if (e.exactMatch) vibrate(haptics, [80]);
+  });
+  events.on('boardCleared', () => vibrate(haptics, [30, 10, 30]));
+}
+
+type Popup = NonNullable<GameState['popups']>[number];
+
+// How long each kind of score popup stays up (ms)
+const SCORE_POPUP_DURATION = { tile: 900, autoDrop: 1000, halving: 1200, doubling: 1400 };
+
+export function attachPopups(events: GameEventBus, game: Game, now: () => number) {
+  const show = (popup: Popup) => {
+    if (!game.state.popups) game.state.popups = [];
+    game.state.popups.push(popup);
+  };
+  events.on('scoreChanged', (e) => {
+    // losses always read as "-n", even when nothing was left to lose
+    const loss = e.reason === 'autoDrop' || e.reason === 'halving';
+    const text = loss ? `-${Math.abs(e.delta)}` : `${e.delta >= 0 ? '+' : ''}${e.delta}`;
+    const duration = SCORE_POPUP_DURATION[e.reason];
+    if (typeof e.x === 'number' && typeof e.y === 'number') {
+      show({ text, boardX: e.x, boardY: e.y, start: now(), duration, kind: 'tile' });
+    } else {
+      show({ text, start: now(), duration, kind: 'global' });
+    }
+  });
+  events.on('levelUp', (e) => {
+    show({ text: `level ${e.level}`, start: now(), duration: 1500, kind: 'global', color: '#f5f0d7' });
+  });
+  // show double.gif centered on the board and flash the score 3 times within 2s
+  events.on('boardCleared', () => {
+    game.state.doubleFlashStart = now();
+    game.state.doubleFlashDuration = 2000;
+    game.state.doubleFlashCount = 3;
+  });
+}
+
+// Save after every change worth resuming from. Moves and rotations aren't
+// saved on their own; they are picked up by the next save.
+export function attachPersistence(events: GameEventBus, game: Game) {
+  const save = () => game.saveState();
+  for (const type of ['pieceSpawned', 'pieceHeld', 'loopDetected', 'exactMatchRemoval', 'paused', 'resumed', 'gameOver'] as const) {
+    events.on(type, save);
+  }
+}
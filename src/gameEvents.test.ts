@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Game } from './game';
+import { GameEventBus } from './gameEvents';
+import type { GameEvent } from './gameEvents';
+import { createHeadlessGame, createHeadlessPlatform, ManualClock, MemoryStorage } from './headless';
+import { AUTO_SLOT } from './saveSlots';
+import { loadBoard, setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const SHORT_STRAIGHT = 1;
+const REMOVAL_INTERVAL = 150;
+const TIMER = 9000;
+
+const empty = (n: number) => Array.from({ length: n }, () => '..........');
+
+// Headless game that records every event from the start
+function recordedGame(seed = 1) {
+  const clock = new ManualClock();
+  const storage = new MemoryStorage();
+  const vibrations: (number | number[])[] = [];
+  const game = new Game(createHeadlessPlatform({ clock, storage, haptics: { vibrate: (p) => vibrations.push(p) } }));
+  const events: GameEvent[] = [];
+  game.onEvent((e) => events.push(e));
+  game.start({ seed });
+  const tick = (ms: number) => {
+    clock.advance(ms);
+    game.update(clock.now());
+  };
+  return { game, clock, storage, events, vibrations, tick };
+}
+
+describe('game events', () => {
+  it('reports placements, loops, removals, score changes, auto-drops and the end of the game', () => {
+    const h = recordedGame();
+    // a Honeynut Loop on an empty board closes a 4-tile loop and empties the board
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    h.tick(TIMER);
+    loadBoard(h.game, ['─.........', ...empty(19)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.tick(TIMER);
+    const removal = ['tileRemoved', 'scoreChanged'];
+    expect(h.events.map((e) => e.type)).toEqual([
+      'gameStarted',
+      'pieceSpawned',
+      'piecePlaced',
+      'loopDetected',
+      ...removal,
+      ...removal,
+      ...removal,
+      ...removal,
+      'removalFinished',
+      'scoreChanged',
+      'boardCleared',
+      'pieceSpawned',
+      'autoDrop',
+      'scoreChanged',
+      'piecePlaced',
+      'pieceSpawned',
+      'autoDrop',
+      'scoreChanged',
+      'gameOver',
+    ]);
+    expect(h.events[2]).toEqual({ type: 'piecePlaced', shapeIndex: HONEYNUT, x: 0, y: 0, auto: false });
+    expect(h.events[3]).toEqual({ type: 'loopDetected', length: 4, shapeIndex: HONEYNUT });
+    expect(h.events[4]).toEqual({ type: 'tileRemoved', x: 1, y: 1, index: 0 });
+    expect(h.events[5]).toEqual({ type: 'scoreChanged', score: 1, delta: 1, reason: 'tile', x: 1, y: 1 });
+    // 1 + 2 + 3 + 4
+    expect(h.events[12]).toEqual({ type: 'removalFinished', points: 10, exactMatch: false });
+    expect(h.events[13]).toMatchObject({ type: 'scoreChanged', score: 20, delta: 10, reason: 'doubling' });
+    expect(h.events[14]).toEqual({ type: 'boardCleared', bonus: 10 });
+    expect(h.events[16]).toMatchObject({ type: 'autoDrop', penalty: 10 });
+    expect(h.events[18]).toMatchObject({ type: 'piecePlaced', auto: true });
+  });
+
+  it('reports exact-match removals with their (negative) payout', () => {
+    const h = recordedGame();
+    loadBoard(h.game, ['│........│', ...empty(19)]);
+    h.game.state.score = 20;
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.game.placePiece();
+    h.tick(REMOVAL_INTERVAL);
+    expect(h.events.slice(2, 6)).toEqual([
+      { type: 'exactMatchRemoval', tiles: 1, shapeIndex: SHORT_STRAIGHT, auto: false },
+      { type: 'tileRemoved', x: 0, y: 0, index: 0 },
+      { type: 'scoreChanged', score: 10, delta: -10, reason: 'halving', x: 0, y: 0 },
+      { type: 'removalFinished', points: -10, exactMatch: true },
+    ]);
+  });
+
+  it('reports moves, blocked placements and the last seconds of the timer', () => {
+    const h = recordedGame();
+    loadBoard(h.game, ['─.........', ...empty(19)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 1, 0);
+    h.game.movePiece(-1, 0);
+    h.game.placePiece();
+    for (let t = 0; t < TIMER - 500; t += 500) h.tick(500);
+    expect(h.events.slice(2)).toEqual([
+      { type: 'pieceMoved', shapeIndex: SHORT_STRAIGHT, dx: -1, dy: 0 },
+      { type: 'placementBlocked', shapeIndex: SHORT_STRAIGHT },
+      { type: 'timerWarning', secondsLeft: 3 },
+      { type: 'timerWarning', secondsLeft: 2 },
+      { type: 'timerWarning', secondsLeft: 1 },
+    ]);
+  });
+
+  it('reports pausing and resuming', () => {
+    const h = recordedGame();
+    h.game.pause();
+    h.game.resume();
+    expect(h.events.slice(2).map((e) => e.type)).toEqual(['paused', 'resumed']);
+  });
+
+  it('stops calling a listener after unsubscribing', () => {
+    const h = createHeadlessGame({ seed: 1, start: false });
+    const seen: string[] = [];
+    const off = h.game.onEvent((e) => seen.push(e.type));
+    h.game.start();
+    off();
+    h.game.end();
+    expect(seen).toEqual(['gameStarted', 'pieceSpawned']);
+  });
+});
+
+describe('GameEventBus', () => {
+  it('delivers events of one type to typed listeners', () => {
+    const bus = new GameEventBus();
+    const levels: number[] = [];
+    bus.on('levelUp', (e) => levels.push(e.level));
+    bus.emit({ type: 'paused' });
+    bus.emit({ type: 'levelUp', level: 3 });
+    expect(levels).toEqual([3]);
+  });
+
+  it('keeps going when a listener throws', () => {
+    const bus = new GameEventBus();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const after = vi.fn();
+    bus.onAny(() => {
+      throw new Error('broken');
+    });
+    bus.onAny(after);
+    bus.emit({ type: 'resumed' });
+    expect(after).toHaveBeenCalledOnce();
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+});
+
+describe('game effects', () => {
+  it('vibrates on placements and board clears', () => {
+    const h = recordedGame();
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    expect(h.vibrations).toEqual([30, [30, 10, 30]]);
+  });
+
+  it('saves when the game pauses and when it ends', () => {
+    const h = recordedGame();
+    const saved = () => JSON.parse(h.game.saves.readRaw(AUTO_SLOT)!).state;
+    h.game.state.score = 42;
+    h.game.pause();
+    expect(saved()).toMatchObject({ score: 42, paused: true });
+    h.game.resume();
+    h.game.end();
+    expect(saved()).toMatchObject({ isGameOver: true });
+  });
+});
@@ -0,0 +1,87 @@
+// gameEvents.ts
+// Typed events emitted by Game and the bus that delivers them. Everything
+// that reacts to the game without being part of its rules subscribes here:
+// haptics, HUD popups and saving (see gameEffects.ts), statistics,
+// achievements and sound. Listeners run synchronously inside the engine call
+// that caused the event and must not change the game's rules state (board,
+// score, pieces); popups and saving are fine.
+
+// Why the score changed: points for a removed loop tile, the auto-drop
+// penalty, the exact-match halving or the board-clear doubling
+export type ScoreReason = 'tile' | 'autoDrop' | 'halving' | 'doubling';
+
+// Event payloads by type. shapeIndex is the piece's index in PIECE_SHAPES;
+// x/y are board cells.
+export type GameEventMap = {
+  gameStarted: { mode: string; width: number; height: number; seed: number };
+  pieceSpawned: { shapeIndex: number };
+  pieceMoved: { shapeIndex: number; dx: number; dy: number };
+  pieceRotated: { shapeIndex: number };
+  // the piece went to the hold slot (swapped: the held piece came back)
+  pieceHeld: { shapeIndex: number; swapped: boolean };
+  // the piece was put on the board (auto: by the timer running out)
+  piecePlaced: { shapeIndex: number; x: number; y: number; auto: boolean };
+  // the player tried to place the piece where it overlaps tiles
+  placementBlocked: { shapeIndex: number };
+  // a placement of shapeIndex closed a loop of `length` tiles
+  loopDetected: { length: number; shapeIndex: number };
+  levelUp: { level: number };
+  exactMatchRemoval: { tiles: number; shapeIndex: number; auto: boolean };
+  // one tile of a running removal left the board (index: its place in the
+  // removal, 0 first)
+  tileRemoved: { x: number; y: number; index: number };
+  scoreChanged: { score: number; delta: number; reason: ScoreReason; x?: number; y?: number };
+  // a removal animation finished; points is its total effect on the score
+  // (negative for exact-match halvings)
+  removalFinished: { points: number; exactMatch: boolean };
+  // the board was emptied and the score doubled by `bonus`
+  boardCleared: { bonus: number };
+  // the timer entered one of its last seconds (3, 2, 1)
+  timerWarning: { secondsLeft: number };
+  autoDrop: { penalty: number; x: number; y: number };
+  paused: {};
+  resumed: {};
+  gameOver: { score: number; duration: number; level: number; loopsClosed: number };
+};
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEvent = { [K in GameEventType]: { type: K } & GameEventMap[K] }[GameEventType];
+
+export type GameEventOf<K extends GameEventType> = Extract<GameEvent, { type: K }>;
+
+export type GameEventListener = (event: GameEvent) => void;
+
+export class GameEventBus {
+  private listeners: { type: GameEventType | null; listener: (event: any) => void }[] = [];
+
+  // Listen to one event type. Returns a function that unsubscribes.
+  on<K extends GameEventType>(type: K, listener: (event: GameEventOf<K>) => void): () => void {
+    return this.add(type, listener);
+  }
+
+  // Listen to every event
+  onAny(listener: GameEventListener): () => void {
+    return this.add(null, listener);
+  }
+
+  emit(event: GameEvent) {
+    for (const { type, listener } of this.listeners) {
+      if (type !== null && type !== event.type) continue;
+      try {
+        listener(event);
+      } catch (e) {
+        // a failing listener must not break the game
+        console.error('Game event listener failed', e);
+      }
+    }
+  }
+
+  private add(type: GameEventType | null, listener: (event: any) => void): () => void {
+    const entry = { type, listener };
+    this.listeners = [...this.listeners, entry];
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== entry);
+    };
+  }
+}
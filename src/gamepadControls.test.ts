@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PAD, rebind } from './bindings';
+import type { PadAction, PadBindings } from './bindings';
+import { GamepadControls, REPEAT_DELAY, REPEAT_INTERVAL } from './gamepadControls';
+import type { PadState } from './gamepadControls';
+
+// A standard-mapping pad with the given buttons held and stick position
+function pad(pressed: number[] = [], axes: number[] = [0, 0]): PadState {
+  return { buttons: Array.from({ length: 17 }, (_, i) => ({ pressed: pressed.includes(i) })), axes };
+}
+
+function controls(bindings: PadBindings = DEFAULT_PAD, onButton?: (button: number) => boolean) {
+  const actions: PadAction[] = [];
+  return { pads: new GamepadControls((a) => actions.push(a), () => bindings, onButton), actions };
+}
+
+const A = 0;
+const LEFT_SHOULDER = 4;
+const Y = 3;
+const START = 9;
+const DPAD_RIGHT = 15;
+
+describe('GamepadControls', () => {
+  it('fires buttons once per press', () => {
+    const { pads, actions } = controls();
+    pads.poll(0, [pad([A, LEFT_SHOULDER])]);
+    pads.poll(500, [pad([A, LEFT_SHOULDER])]);
+    pads.poll(516, [pad()]);
+    pads.poll(532, [null, pad([START])]);
+    // buttons pressed on the same poll fire in the order of the binding table
+    expect(actions).toEqual(['rotateCCW', 'place', 'pause']);
+  });
+
+  it('repeats a held direction after a delay', () => {
+    const { pads, actions } = controls();
+    const times = [0, REPEAT_DELAY - 1, REPEAT_DELAY, REPEAT_DELAY + REPEAT_INTERVAL - 1, REPEAT_DELAY + REPEAT_INTERVAL];
+    for (const t of times) pads.poll(t, [pad([DPAD_RIGHT])]);
+    expect(actions).toEqual(['moveRight', 'moveRight', 'moveRight']);
+    // letting go and pressing again starts over
+    pads.poll(400, [pad()]);
+    pads.poll(416, [pad([DPAD_RIGHT])]);
+    pads.poll(432, [pad([DPAD_RIGHT])]);
+    expect(actions).toHaveLength(4);
+  });
+
+  it('reads the left stick past its dead zone', () => {
+    const { pads, actions } = controls();
+    pads.poll(0, [pad([], [0.3, 0])]);
+    pads.poll(16, [pad([], [-0.9, 0])]);
+    pads.poll(32, [pad([], [0, 0])]);
+    pads.poll(48, [pad([], [0, 0.8])]);
+    expect(actions).toEqual(['moveLeft', 'moveDown']);
+  });
+
+  it('follows rebound buttons', () => {
+    const { pads, actions } = controls(rebind(DEFAULT_PAD, 'hold', A));
+    pads.poll(0, [pad([A])]);
+    pads.poll(16, [pad([])]);
+    pads.poll(32, [pad([2])]);
+    expect(actions).toEqual(['hold']);
+  });
+
+  it('leaves claimed buttons alone until they are released', () => {
+    let bindings = DEFAULT_PAD;
+    let capturing = true;
+    const actions: PadAction[] = [];
+    const pads = new GamepadControls((a) => actions.push(a), () => bindings, (button) => {
+      if (!capturing) return false;
+      // the controls screen binds the pressed button
+      bindings = rebind(bindings, 'place', button);
+      capturing = false;
+      return true;
+    });
+    pads.poll(0, [pad([Y])]);
+    pads.poll(16, [pad([Y])]);
+    expect(actions).toEqual([]);
+    pads.poll(32, [pad()]);
+    pads.poll(48, [pad([Y])]);
+    expect(actions).toEqual(['place']);
+  });
+});
@@ -0,0 +1,87 @@
+// gamepadControls.ts
+// Controllers in the browser's standard mapping (Gamepad API), polled once per
+// frame from the game loop. Buttons are looked up in the pad bindings; the
+// left stick always moves. Moves auto-repeat like held keys, everything else
+// fires once per press. Every connected pad drives the same game.
+import type { InputAction, PadAction, PadBindings } from './bindings';
+
+// The parts of a browser Gamepad that are read here
+export type PadState = { buttons: readonly { pressed: boolean }[]; axes: readonly number[] };
+
+// Left stick directions
+const STICK: { axis: number; sign: 1 | -1; action: InputAction }[] = [
+  { axis: 1, sign: -1, action: 'moveUp' },
+  { axis: 1, sign: 1, action: 'moveDown' },
+  { axis: 0, sign: -1, action: 'moveLeft' },
+  { axis: 0, sign: 1, action: 'moveRight' },
+];
+const REPEATING: PadAction[] = ['moveLeft', 'moveRight', 'moveUp', 'moveDown'];
+
+// How far the stick has to lean before it counts as a direction
+const STICK_THRESHOLD = 0.5;
+// A held move repeats after REPEAT_DELAY ms, then every REPEAT_INTERVAL ms
+export const REPEAT_DELAY = 200;
+export const REPEAT_INTERVAL = 80;
+
+export class GamepadControls {
+  private onAction: (action: PadAction) => void;
+  private getBindings: () => PadBindings;
+  private onButton?: (button: number) => boolean;
+  // actions held on the last poll, and when each held move repeats next
+  private held = new Set<PadAction>();
+  private nextRepeat = new Map<PadAction, number>();
+  // buttons held on the last poll, and those claimed by onButton until released
+  private heldButtons = new Set<number>();
+  private claimed = new Set<number>();
+
+  // onButton sees each new button press first and returns true to keep it
+  // from triggering an action (the controls screen binding a button)
+  constructor(onAction: (action: PadAction) => void, getBindings: () => PadBindings, onButton?: (button: number) => boolean) {
+    this.onAction = onAction;
+    this.getBindings = getBindings;
+    this.onButton = onButton;
+  }
+
+  // Read the pads (navigator.getGamepads(); empty slots are null) at time now (ms)
+  poll(now: number, pads: readonly (PadState | null)[]) {
+    const buttons = new Set<number>();
+    const active = new Set<PadAction>();
+    for (const pad of pads) {
+      if (!pad) continue;
+      pad.buttons.forEach((b, i) => {
+        if (b.pressed) buttons.add(i);
+      });
+      for (const { axis, sign, action } of STICK) {
+        if ((pad.axes[axis] ?? 0) * sign > STICK_THRESHOLD) active.add(action);
+      }
+    }
+    for (const button of buttons) {
+      if (!this.heldButtons.has(button) && this.onButton?.(button)) this.claimed.add(button);
+    }
+    for (const button of this.claimed) {
+      if (!buttons.has(button)) this.claimed.delete(button);
+    }
+    this.heldButtons = buttons;
+
+    const bindings = this.getBindings();
+    for (const action of Object.keys(bindings) as PadAction[]) {
+      if (bindings[action].some((b) => buttons.has(b) && !this.claimed.has(b))) active.add(action);
+    }
+
+    for (const action of active) {
+      const repeats = REPEATING.includes(action);
+      if (!this.held.has(action)) {
+        this.onAction(action);
+        if (repeats) this.nextRepeat.set(action, now + REPEAT_DELAY);
+      } else if (repeats && now >= this.nextRepeat.get(action)!) {
+        this.onAction(action);
+        // keep the cadence steady across uneven frames, but don't catch up after a stall
+        this.nextRepeat.set(action, Math.max(this.nextRepeat.get(action)! + REPEAT_INTERVAL, now));
+      }
+    }
+    for (const action of this.held) {
+      if (!active.has(action)) this.nextRepeat.delete(action);
+    }
+    this.held = active;
+  }
+}
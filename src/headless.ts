@@ -0,0 +1,109 @@
+// headless.ts
+// DOM-free platform implementations so the full game can be driven tick by
+// tick from Node (tests, tools, replay verification).
+import { Game } from './game';
+import type { StartOptions } from './game';
+import { createMulberry32 } from './random';
+import type { Clock, Haptics, KeyValueStorage, Platform } from './platform';
+
+// Clock that only moves when advance() is called. Timers fire in order of
+// their due time while advancing.
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: { id: number; due: number; fn: () => void }[] = [];
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.time + Math.max(0, ms), fn });
+    return id;
+  }
+
+  clearTimeout(id: number) {
+    this.timers = this.timers.filter((t) => t.id !== id);
+  }
+
+  advance(ms: number) {
+    const target = this.time + Math.max(0, ms);
+    for (;;) {
+      let next: { id: number; due: number; fn: () => void } | null = null;
+      for (const t of this.timers) {
+        if (t.due <= target && (!next || t.due < next.due)) next = t;
+      }
+      if (!next) break;
+      this.timers = this.timers.filter((t) => t !== next);
+      this.time = next.due;
+      next.fn();
+    }
+    this.time = target;
+  }
+}
+
+export class MemoryStorage implements KeyValueStorage {
+  private data = new Map<string, string>();
+
+  get(key: string): string | null {
+    return this.data.has(key) ? (this.data.get(key) as string) : null;
+  }
+
+  set(key: string, value: string) {
+    this.data.set(key, value);
+  }
+
+  remove(key: string) {
+    this.data.delete(key);
+  }
+}
+
+export const silentHaptics: Haptics = {
+  vibrate() {
+    // no vibration outside the browser
+  },
+};
+
+export function createHeadlessPlatform(overrides: Partial<Platform> = {}): Platform {
+  return {
+    clock: new ManualClock(),
+    storage: new MemoryStorage(),
+    haptics: silentHaptics,
+    rngFactory: createMulberry32,
+    ...overrides,
+  };
+}
+
+export type HeadlessGame = {
+  game: Game;
+  clock: ManualClock;
+  storage: MemoryStorage;
+  // advance the clock by ms and run one game update
+  tick(ms?: number): void;
+};
+
+// Create a game on a manual clock and in-memory storage. Call tick() to
+// advance time; each tick runs exactly one Game.update().
+export function createHeadlessGame(opts: StartOptions & { start?: boolean } = {}): HeadlessGame {
+  const clock = new ManualClock();
+  const storage = new MemoryStorage();
+  const game = new Game(createHeadlessPlatform({ clock, storage }));
+  if (opts.start !== false) {
+    const { start: _start, ...startOptions } = opts;
+    game.start(startOptions);
+  }
+  return {
+    game,
+    clock,
+    storage,
+    tick(ms = 16) {
+      clock.advance(ms);
+      game.update(clock.now());
+    },
+  };
+}
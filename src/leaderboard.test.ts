@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { cleanName, Leaderboard, LEADERBOARD_SIZE } from './leaderboard';
+import type { LeaderboardEntry } from './leaderboard';
+import { createHeadlessGame, createHeadlessPlatform, MemoryStorage } from './headless';
+import { Game } from './game';
+
+function entry(score: number, overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry {
+  return { name: 'ann', score, date: '2026-01-01T00:00:00.000Z', mode: 'classic', difficulty: 'normal', width: 10, height: 20, seed: 7, duration: 1000, ...overrides };
+}
+
+describe('Leaderboard', () => {
+  it('keeps the best entries per mode, best first', () => {
+    const board = new Leaderboard(new MemoryStorage());
+    for (let i = 1; i <= LEADERBOARD_SIZE + 2; i++) board.add(entry(i * 10));
+    board.add(entry(5, { mode: 'bag' }));
+    const classic = board.entries('classic');
+    expect(classic).toHaveLength(LEADERBOARD_SIZE);
+    expect(classic[0].score).toBe((LEADERBOARD_SIZE + 2) * 10);
+    expect(classic[LEADERBOARD_SIZE - 1].score).toBe(30);
+    expect(board.entries('bag').map((e) => e.score)).toEqual([5]);
+    expect(board.best('relaxed')).toBe(0);
+  });
+
+  it('reports whether a score qualifies and the rank it got', () => {
+    const board = new Leaderboard(new MemoryStorage());
+    for (let i = 1; i <= LEADERBOARD_SIZE; i++) board.add(entry(i * 10));
+    expect(board.qualifies('classic', 10)).toBe(false);
+    expect(board.qualifies('classic', 0)).toBe(false);
+    expect(board.add(entry(10))).toBe(-1);
+    expect(board.add(entry(55))).toBe(5);
+  });
+
+  it('persists entries and the last name', () => {
+    const storage = new MemoryStorage();
+    const board = new Leaderboard(storage);
+    board.add(entry(42, { name: 'Zoë!' }));
+    board.lastName = 'Zed';
+    const reloaded = new Leaderboard(storage);
+    expect(reloaded.entries('classic')).toEqual([entry(42, { name: 'zo' })]);
+    expect(reloaded.lastName).toBe('zed');
+  });
+
+  it('migrates the old single high score into the classic table', () => {
+    const storage = new MemoryStorage();
+    storage.set('double_high', '321');
+    const board = new Leaderboard(storage);
+    expect(board.entries('classic')).toMatchObject([{ score: 321, name: 'player', width: 10, height: 20 }]);
+    expect(storage.get('double_high')).toBeNull();
+    expect(new Leaderboard(storage).entries('classic')).toHaveLength(1);
+  });
+
+  it('keeps scores another tab saved in the meantime', () => {
+    const storage = new MemoryStorage();
+    const here = new Leaderboard(storage);
+    const elsewhere = new Leaderboard(storage);
+    elsewhere.add(entry(80, { name: 'bob' }));
+    expect(here.add(entry(50))).toBe(1);
+    expect(new Leaderboard(storage).entries('classic').map((e) => e.score)).toEqual([80, 50]);
+  });
+
+  it('drops malformed stored entries', () => {
+    const storage = new MemoryStorage();
+    storage.set('double_leaderboard', JSON.stringify({ v: 1, modes: { classic: [entry(9), { name: 'x', score: 'lots' }] } }));
+    expect(new Leaderboard(storage).entries('classic')).toEqual([entry(9)]);
+  });
+
+  it('reads entries stored before difficulties as normal games', () => {
+    const storage = new MemoryStorage();
+    const { difficulty: _difficulty, ...old } = entry(9);
+    storage.set('double_leaderboard', JSON.stringify({ v: 1, modes: { classic: [old] } }));
+    expect(new Leaderboard(storage).entries('classic')).toEqual([entry(9)]);
+  });
+
+  it('cleans names', () => {
+    expect(cleanName('  Big_Al-99  ')).toBe('big_al-99');
+    expect(cleanName('a very long name indeed')).toHaveLength(12);
+    expect(cleanName('!!!')).toBe('player');
+  });
+});
+
+describe('Game high scores', () => {
+  it('records a finished game with its mode, board size and seed', () => {
+    const h = createHeadlessGame({ seed: 11, mode: 'bag', boardWidth: 8, boardHeight: 14 });
+    h.game.state.score = 77;
+    h.tick(1000);
+    h.game.end();
+    expect(h.game.canRecordHighScore()).toBe(true);
+    expect(h.game.recordHighScore('Dee')).toBe(0);
+    expect(h.game.canRecordHighScore()).toBe(false);
+    expect(h.game.leaderboard.entries('bag')).toMatchObject([{ name: 'dee', score: 77, mode: 'bag', width: 8, height: 14, seed: 11, duration: 1000 }]);
+    expect(h.game.state.highScores).toEqual([77]);
+
+    // a new game in another mode shows that mode's scores
+    h.game.state.canRestart = true;
+    h.game.start({ mode: 'classic' });
+    expect(h.game.state.highScores).toEqual([]);
+  });
+
+  it('loads the leaderboard of the restored mode', () => {
+    const h = createHeadlessGame({ seed: 11, mode: 'relaxed' });
+    h.game.state.score = 5;
+    h.game.end();
+    h.game.recordHighScore('eve');
+    h.game.saveState();
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect(restored.state.highScores).toEqual([5]);
+    expect(restored.canRecordHighScore()).toBe(false);
+  });
+});
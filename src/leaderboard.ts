@@ -0,0 +1,176 @@
+// leaderboard.ts
+// Persistent high-score tables, one per game mode. Entries keep enough about
+// the game (seed, board size, duration) to tell runs apart and re-watch them.
+import type { KeyValueStorage } from './platform';
+import { DEFAULT_DIFFICULTY_ID } from './difficulty';
+import { DEFAULT_MODE_ID } from './modes';
+import { DEFAULT_RULES } from './rules';
+
+export type LeaderboardEntry = {
+  name: string;
+  score: number;
+  date: string; // ISO timestamp of the game start ('' when unknown)
+  mode: string;
+  difficulty: string; // difficulty preset id
+  width: number;
+  height: number;
+  seed: number;
+  duration: number; // ms
+};
+
+// Entries kept per mode
+export const LEADERBOARD_SIZE = 10;
+export const MAX_NAME_LENGTH = 12;
+// Used when the player doesn't enter a name (and for migrated scores)
+export const DEFAULT_PLAYER_NAME = 'player';
+
+export const LEADERBOARD_KEY = 'double_leaderboard';
+const NAME_KEY = 'double_player_name';
+// Single best score stored by versions before the leaderboard
+const LEGACY_HIGH_KEY = 'double_high';
+
+type StoredLeaderboard = { v: 1; modes: Record<string, LeaderboardEntry[]> };
+
+// Trim and restrict a typed name to lower-case letters, digits, space, - and _
+export function cleanName(name: string): string {
+  const cleaned = name
+    .toLowerCase()
+    .replace(/[^a-z0-9 _-]/g, '')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH);
+  return cleaned || DEFAULT_PLAYER_NAME;
+}
+
+// Stored entry, read back with the difficulty filled in for entries kept
+// before it was recorded; null when it isn't one
+function readEntry(raw: unknown): LeaderboardEntry | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const e = raw as Record<string, unknown>;
+  const entry = { ...e, difficulty: e.difficulty ?? DEFAULT_DIFFICULTY_ID };
+  return isEntry(entry) ? entry : null;
+}
+
+function isEntry(e: Record<string, unknown>): e is LeaderboardEntry {
+  return (
+    typeof e.name === 'string' &&
+    Number.isFinite(e.score) &&
+    typeof e.date === 'string' &&
+    typeof e.mode === 'string' &&
+    typeof e.difficulty === 'string' &&
+    Number.isInteger(e.width) &&
+    Number.isInteger(e.height) &&
+    Number.isFinite(e.seed) &&
+    Number.isFinite(e.duration)
+  );
+}
+
+// Higher score first; ties go to the earlier game
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry) {
+  return b.score - a.score || a.date.localeCompare(b.date);
+}
+
+// Same game recorded twice (e.g. a table read back after another tab saved it)
+const sameEntry = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  a.name === b.name && a.score === b.score && a.date === b.date && a.mode === b.mode && a.seed === b.seed;
+
+// Best entries of both lists without duplicates
+function mergeEntries(a: LeaderboardEntry[], b: LeaderboardEntry[]): LeaderboardEntry[] {
+  const merged = a.slice();
+  for (const e of b) if (!merged.some((m) => sameEntry(m, e))) merged.push(e);
+  return merged.sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+}
+
+export class Leaderboard {
+  private storage: KeyValueStorage;
+  private modes: Record<string, LeaderboardEntry[]> = {};
+
+  constructor(storage: KeyValueStorage) {
+    this.storage = storage;
+    this.refresh();
+    this.migrateLegacyHigh();
+  }
+
+  // Entries of one mode, best first
+  entries(mode: string): LeaderboardEntry[] {
+    return (this.modes[mode] ?? []).slice();
+  }
+
+  best(mode: string): number {
+    return this.modes[mode]?.[0]?.score ?? 0;
+  }
+
+  // True if the score would make it onto the mode's table
+  qualifies(mode: string, score: number): boolean {
+    if (score <= 0) return false;
+    const list = this.modes[mode] ?? [];
+    return list.length < LEADERBOARD_SIZE || score > list[list.length - 1].score;
+  }
+
+  // Add an entry and persist. Returns its rank (0-based) or -1 if it didn't qualify.
+  add(entry: LeaderboardEntry): number {
+    // merge what other tabs saved since we last read, so their scores stay
+    this.refresh();
+    if (!this.qualifies(entry.mode, entry.score)) return -1;
+    const added = { ...entry, name: cleanName(entry.name) };
+    const list = (this.modes[entry.mode] ?? []).concat(added).sort(compareEntries).slice(0, LEADERBOARD_SIZE);
+    this.modes[entry.mode] = list;
+    this.save();
+    return list.indexOf(added);
+  }
+
+  // Name last entered on this device (prefilled in the name entry)
+  get lastName(): string {
+    return this.storage.get(NAME_KEY) ?? '';
+  }
+
+  set lastName(name: string) {
+    try {
+      this.storage.set(NAME_KEY, cleanName(name));
+    } catch (e) {
+      // ignore
+    }
+  }
+
+  // Read the stored tables back in, keeping entries we already have
+  refresh() {
+    try {
+      const raw = this.storage.get(LEADERBOARD_KEY);
+      if (raw !== null) {
+        const stored = JSON.parse(raw) as StoredLeaderboard;
+        if (stored && stored.v === 1 && stored.modes && typeof stored.modes === 'object') {
+          for (const [mode, list] of Object.entries(stored.modes)) {
+            if (Array.isArray(list)) this.modes[mode] = mergeEntries(this.modes[mode] ?? [], list.map(readEntry).filter((e) => e !== null));
+          }
+        }
+      }
+    } catch (e) {
+      // ignore corrupt tables; they are replaced on the next save
+    }
+  }
+
+  // Move the old single high score into the classic table (it was recorded
+  // before modes, names and board sizes existed)
+  private migrateLegacyHigh() {
+    try {
+      const v = this.storage.get(LEGACY_HIGH_KEY);
+      if (v === null) return;
+      const score = parseInt(v, 10);
+      if (!Number.isNaN(score) && score > 0) {
+        const { boardWidth: width, boardHeight: height } = DEFAULT_RULES;
+        this.add({ name: DEFAULT_PLAYER_NAME, score, date: '', mode: DEFAULT_MODE_ID, difficulty: DEFAULT_DIFFICULTY_ID, width, height, seed: 0, duration: 0 });
+      }
+      this.storage.remove(LEGACY_HIGH_KEY);
+    } catch (e) {
+      // ignore
+    }
+  }
+
+  private save() {
+    try {
+      const stored: StoredLeaderboard = { v: 1, modes: this.modes };
+      this.storage.set(LEADERBOARD_KEY, JSON.stringify(stored));
+    } catch (e) {
+      // ignore
+    }
+  }
+}
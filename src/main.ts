@@ -1,13 +1,270 @@
 import './style.css';
 import { Game } from './game';
 import { Renderer } from './renderer';
-import { MobileControls } from './mobileControls';
+import { PointerControls } from './pointerControls';
+import { bindGameToWindow, createBrowserPlatform } from './browserPlatform';
+import { parseReplayLog, ReplayPlayer } from './replay';
+import type { ReplayLog } from './replay';
+import { copyText, downloadText, pickTextFile } from './files';
+import { normalizeRules } from './rules';
+import type { GameRules } from './rules';
+import { Screens } from './screens';
+import type { ScreenId } from './screens';
+import { loadSettings, MAX_VOLUME, saveSettings } from './settings';
+import type { Settings } from './settings';
+import { actionForKey } from './bindings';
+import type { InputAction, PadAction } from './bindings';
+import { DEFAULT_PLAYER_NAME, LEADERBOARD_KEY } from './leaderboard';
+import { createSubmission } from './scoreSubmission';
+import { ScoreSync } from './scoreSync';
+import { StatsTracker } from './stats';
+import { ACHIEVEMENTS, AchievementTracker } from './achievements';
+import { AUTO_SLOT, PLAYER_SLOTS } from './saveSlots';
+import { TabLock } from './tabLock';
+import { attachSounds, WebAudioSounds } from './sound';
+import { GamepadControls } from './gamepadControls';
+import { createSandbox, decodePosition, encodePosition, positionSave } from './sandbox';
+import { parseSave } from './saveFormat';
+import type { SaveData } from './saveFormat';
 
 
-const game = new Game();
+const platform = createBrowserPlatform(() => settings.haptics);
+const systemReducedMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+let settings: Settings = loadSettings(platform.storage, systemReducedMotion);
+const game = new Game(platform);
+bindGameToWindow(game);
+// Only one tab plays (and autosaves) the game; the others wait on the
+// 'elsewhere' screen until the player takes the game over
+const tabLock = new TabLock(platform.storage, platform.clock);
+if (!tabLock.acquire()) leaveGame();
+// Lifetime stats follow the live game (replays run on their own Game)
+const statsTracker = new StatsTracker(platform.storage);
+game.onEvent((event) => statsTracker.handle(event));
+// Achievements announce unlocks with a toast in the HUD
+const achievements = new AchievementTracker(platform.storage);
+achievements.onUnlock = (achievement) => game.toast(`trophy: ${achievement.name}`, '#ffd95a');
+game.onEvent((event) => achievements.handle(event));
+// Sound effects for the live game (and sandboxes); audio starts with the first gesture
+const sounds = new WebAudioSounds();
+attachSounds(game.events, sounds);
+for (const type of ['pointerdown', 'keydown', 'touchend']) window.addEventListener(type, () => sounds.unlock());
+
+// Replay being watched (drawn instead of the live game while set)
+let replay: ReplayPlayer | null = null;
+// Game opened from a file or a shared link (played instead of the live game while set)
+let sandbox: Game | null = null;
+let lastFrameTime = 0;
 const renderer = new Renderer('gameCanvas');
+applySettings();
+
+// Optional leaderboard server (see server/). Finished games queue in storage
+// and are sent whenever the server can be reached.
+const LEADERBOARD_URL = import.meta.env.VITE_LEADERBOARD_URL;
+const scoreSync = LEADERBOARD_URL ? new ScoreSync(platform.storage, LEADERBOARD_URL, (url, init) => fetch(url, init)) : null;
+// log of the last game handed to scoreSync, so each game is sent once
+let submittedLog: ReplayLog | null = null;
+
+// Rules for the next new game, remembered between sessions
+const RULES_KEY = 'double_rules';
+let rules: GameRules = loadRules();
+
+function loadRules(): GameRules {
+  try {
+    return normalizeRules(JSON.parse(platform.storage.get(RULES_KEY) || '{}'));
+  } catch (e) {
+    return normalizeRules(null);
+  }
+}
+
+// A restored game continues where it was left: paused games open the pause
+// menu, running ones go straight back in. A damaged save opens the recovery
+// screen. Otherwise we start on the title.
+function initialScreen(): ScreenId {
+  if (!tabLock.owns) return 'elsewhere';
+  if (game.loadProblem) return 'recovery';
+  if (game.restored && game.state.paused) return 'pause';
+  if (game.restored && game.state.isRunning) return 'playing';
+  return 'title';
+}
+
+const screens = new Screens(
+  {
+    getRules: () => rules,
+    setRules: (chosen) => {
+      rules = chosen;
+      platform.storage.set(RULES_KEY, JSON.stringify(rules));
+    },
+    getSettings: () => settings,
+    setSettings: (changed) => {
+      settings = changed;
+      saveSettings(platform.storage, settings, systemReducedMotion);
+      applySettings();
+    },
+    startGame: () => {
+      game.start(rules);
+      renderer.fitToViewport(game.state.board);
+    },
+    resumeGame: () => {
+      game.resume();
+      renderer.fitToViewport(game.state.board);
+    },
+    canResume: () => !!game.state.paused,
+    hasReplay: () => (game.getReplayLog()?.actions.length ?? 0) > 0,
+    watchReplay: () => {
+      const log = game.getReplayLog();
+      if (log) startReplay(log);
+    },
+    exportReplay: () => exportReplay(game.getReplayLog()),
+    loadReplay: () => importReplay(),
+    summary: () => ({
+      score: game.state.score,
+      best: Math.max(game.state.score, game.leaderboard.best(game.state.modeId)),
+      level: game.state.level,
+      loopsClosed: game.state.loopsClosed,
+      duration: game.getReplayLog()?.duration,
+    }),
+    leaderboard: (mode) => game.leaderboard.entries(mode),
+    currentMode: () => game.state.modeId,
+    canRecordHighScore: () => game.canRecordHighScore(),
+    recordHighScore: (name) => game.recordHighScore(name),
+    lastPlayerName: () => game.leaderboard.lastName,
+    promptName: (current) => window.prompt('Your name', current),
+    stats: () => statsTracker.stats,
+    trophies: () => ACHIEVEMENTS.map((achievement) => ({ achievement, unlockedAt: achievements.unlockedAt(achievement.id) })),
+    saveSlots: () =>
+      PLAYER_SLOTS.map((name) => {
+        const result = game.saves.read(name);
+        return { name, save: result?.ok ? result.save : null, damaged: result?.ok === false };
+      }),
+    saveToSlot: (name) => game.saveToSlot(name),
+    loadSlot: (name) => game.loadSlot(name) && openLoadedGame(),
+    loadProblem: () => game.loadProblem,
+    restoreBackup: () => game.restoreBackup() && openLoadedGame(),
+    exportDamagedSave: () => {
+      const raw = game.saves.readRaw(AUTO_SLOT);
+      if (raw !== null) downloadText('double-save-damaged.json', raw);
+    },
+    takeOver: () => {
+      tabLock.takeOver();
+      game.autosave = true;
+      // continue from the other tab's last autosave
+      game.loadProblem = null;
+      game.loadState();
+      game.pause();
+      // and from the stats and achievements it saved
+      statsTracker.reload();
+      achievements.reload();
+      renderer.fitToViewport(game.state.board);
+    },
+    exportGame: () => downloadText(`double-game-${game.state.seed}.json`, JSON.stringify(game.toSave())),
+    shareLink: () => {
+      const save = game.toSave();
+      const link = `${location.href.split('#')[0]}#${encodePosition({ ...save.board, piece: save.currentPiece })}`;
+      copyText(link).then((copied) => {
+        if (!copied) window.prompt('Link to this board', link);
+      });
+    },
+    importGame: async () => {
+      const text = await pickTextFile();
+      if (text === null) return null;
+      const result = parseSave(text);
+      if (!result.ok) return result.reason;
+      openSandbox(result.save);
+      return null;
+    },
+  },
+  initialScreen()
+);
+
+// Hand the settings to everything that reads them once (the rest read
+// `settings` when they need it)
+function applySettings() {
+  sounds.setVolume(settings.volume / MAX_VOLUME, !settings.sound);
+  renderer.reducedMotion = settings.reducedMotion;
+  game.removalInterval = settings.removalInterval;
+  if (sandbox) sandbox.removalInterval = settings.removalInterval;
+}
+
+// Another tab owns the game: stop playing it here without touching the autosave
+function leaveGame() {
+  game.autosave = false;
+  game.pause();
+}
+
+tabLock.onLost = () => {
+  leaveGame();
+  replay = null;
+  sandbox = null;
+  screens.openElsewhere();
+  renderer.fitToViewport(game.state.board);
+};
 
-// Preload assets before starting the game to avoid first-frame image pop-in
+window.addEventListener('storage', (e) => {
+  tabLock.check();
+  // key is null when storage was cleared
+  if (e.key === LEADERBOARD_KEY || e.key === null) game.leaderboard.refresh();
+});
+window.addEventListener('beforeunload', () => tabLock.release());
+
+// Play a game from a file or link on the side; the live game waits paused
+function openSandbox(save: SaveData) {
+  game.pause();
+  replay = null;
+  sandbox = createSandbox(platform, save);
+  attachSounds(sandbox.events, sounds);
+  sandbox.removalInterval = settings.removalInterval;
+  sandbox.resume();
+  sandbox.toast('sandbox: esc to leave');
+  screens.openSandbox();
+  renderer.fitToViewport(sandbox.state.board);
+}
+
+function leaveSandbox() {
+  sandbox = null;
+  if (!tabLock.owns) screens.openElsewhere();
+  else screens.show(game.state.paused ? 'pause' : 'title');
+  renderer.fitToViewport(game.state.board);
+}
+
+// Open a board shared as a link (see sandbox.ts); the fragment is dropped so
+// a reload doesn't open it again
+function openSharedPosition() {
+  const position = decodePosition(location.hash);
+  if (!position) return;
+  history.replaceState(null, '', location.pathname + location.search);
+  const result = positionSave(platform, position);
+  if (result.ok) openSandbox(result.save);
+  else if (screens.menu) screens.menu.lines = [`can't open that board link`, `(${result.reason})`];
+  else game.toast(`can't open that board link (${result.reason})`, '#ff6b6b');
+}
+
+openSharedPosition();
+window.addEventListener('hashchange', openSharedPosition);
+
+// A game loaded from a slot or backup waits paused until the player resumes
+function openLoadedGame(): boolean {
+  game.pause();
+  renderer.fitToViewport(game.state.board);
+  return true;
+}
+
+// Queue the finished game for the leaderboard server once the player is past
+// name entry (the server checks it by replaying the log)
+function submitFinishedGame() {
+  const log = game.getReplayLog();
+  if (!scoreSync || !log || log === submittedLog || game.state.score <= 0) return;
+  submittedLog = log;
+  const entry = game.leaderboardEntry(game.leaderboard.lastName || DEFAULT_PLAYER_NAME);
+  scoreSync.submit(createSubmission(entry, log));
+}
+
+if (scoreSync) {
+  scoreSync.onStoreFailed = (queued) => game.toast(`storage full: ${queued} unsent score${queued === 1 ? '' : 's'} lost on reload`, '#ff6b6b');
+  scoreSync.sync();
+  window.addEventListener('online', () => scoreSync.sync());
+}
+
+// Preload assets before showing the first screen to avoid image pop-in
 async function init() {
   try {
     await renderer.preload();
@@ -15,17 +272,9 @@ async function init() {
     // ignore preload errors; renderer falls back to colored cells
   }
   try {
-    // If we restored a saved game, do not call startGame() because that
-    // would reset the board and score. Instead resume rendering and let
-    // the restored `game.state` drive the UI.
-    if (game.restored) {
-      // Fit canvas to the restored board and start the render loop which
-      // will continue the game's previous running/paused state.
-      renderer.fitToViewport(game.state.board);
-      gameLoop();
-    } else {
-      startGame();
-    }
+    renderer.fitToViewport(game.state.board);
+    lastFrameTime = performance.now();
+    gameLoop();
   } catch (e: any) {
     // Log startup error to console
     const txt = e && e.stack ? e.stack : String(e);
@@ -36,179 +285,272 @@ async function init() {
 
 function renderBoard() {
   renderer.clear();
-  renderer.drawBoard(game.state.board);
-  if (game.state.currentPiece) {
-    renderer.drawPiece(game.state.currentPiece, game.state.board);
+  // the title screen has no game behind it
+  if (screens.current !== 'title') {
+    const shown = replay ? replay.game : (sandbox ?? game);
+    const state = shown.state;
+    renderer.drawBoard(state.board);
+    if (state.currentPiece) {
+      renderer.drawPiece(state.currentPiece, state.board, shown.placementPreview());
+    }
+    // Draw HUD (timer, game over)
+    if (replay) {
+      renderer.drawHUD(state, replay.clock.now());
+      renderer.drawReplayHUD(state.board, replay);
+    } else {
+      renderer.drawHUD(state);
+    }
   }
-  // Draw score inside the board (top-left with padding)
-  renderer.drawScoreInside(game.state.board, game.state.score);
-  // Draw HUD (timer, game over)
-  renderer.drawHUD(game.state);
+  if (screens.menu) renderer.drawMenu(screens.menu);
 }
 
 // Fit canvas to viewport so the full logical layout is visible
-window.addEventListener('resize', () => renderer.fitToViewport(game.state.board));
+window.addEventListener('resize', () => renderer.fitToViewport((replay?.game ?? sandbox ?? game).state.board));
+
+// Open the pause menu over a running game
+function pauseGame() {
+  if (screens.current !== 'playing' || !game.state.isRunning) return;
+  game.pause();
+  screens.show('pause');
+}
 
-// Pause the game when the window loses focus, resume when it gains focus
+// Pause the game when the window loses focus (if enabled in settings); it
+// stays paused until the player picks resume
 window.addEventListener('blur', () => {
-  if (game.state.isRunning && !game.state.isGameOver) {
-    game.pause();
-    renderBoard();
-  }
+  if (settings.autoPause) pauseGame();
 });
-window.addEventListener('focus', () => {
-  if (game.state.paused) {
-    // keep paused until user explicitly resumes (Space/Enter or tap)
-    renderBoard();
+
+// Controllers: buttons go through the pad bindings, unless the controls
+// screen is waiting to bind one
+const gamepad = new GamepadControls(handleAction, () => settings.pad, (button) => screens.handleButton(button));
+
+// Keys actions stand in for on menus and in replays
+const MENU_KEYS: Partial<Record<PadAction, string>> = {
+  moveUp: 'arrowup',
+  moveDown: 'arrowdown',
+  moveLeft: 'arrowleft',
+  moveRight: 'arrowright',
+  place: 'enter',
+  back: 'escape',
+};
+const REPLAY_KEYS: Partial<Record<PadAction, string>> = {
+  moveLeft: 'arrowleft',
+  moveRight: 'arrowright',
+  place: ' ',
+  back: 'escape',
+  pause: 'escape',
+};
+
+// Every input backend (keyboard, gamepad, mouse, touch) ends up here with the
+// action its bindings give: in-game actions while playing, menu keys elsewhere
+function handleAction(action: PadAction) {
+  switch (screens.current) {
+    case 'playing':
+      if (action === 'pause') pauseGame();
+      else if (action !== 'back') playAction(game, action);
+      break;
+    case 'sandbox':
+      if (action === 'pause' || action === 'back') leaveSandbox();
+      else if (sandbox) playAction(sandbox, action);
+      break;
+    case 'replay': {
+      const key = REPLAY_KEYS[action];
+      if (replay && key) handleReplayKey(replay, key);
+      break;
+    }
+    case 'pause':
+      // the pause action toggles pause
+      if (action === 'pause') screens.back();
+      else if (MENU_KEYS[action]) screens.handleKey(MENU_KEYS[action]);
+      break;
+    default: {
+      const key = MENU_KEYS[action];
+      if (key) screens.handleKey(key);
+    }
   }
-});
+}
 
+// Single render loop for every screen
 function gameLoop() {
   try {
+    const now = performance.now();
+    if (replay) replay.advance(now - lastFrameTime);
+    lastFrameTime = now;
+    if (navigator.getGamepads) gamepad.poll(now, navigator.getGamepads());
+    game.update(now);
+    if (sandbox) sandbox.update(now);
+    // music only plays while a game is being played
+    const played = controlled();
+    sounds.setMusic(settings.music && !!played?.state.isRunning);
+    // once the game-over lock has passed, continue to name entry / summary
+    if (screens.current === 'playing' && game.state.isGameOver && game.state.canRestart !== false) {
+      screens.finishGame();
+    }
+    if (screens.current === 'summary') submitFinishedGame();
     renderBoard();
-    // update game animation state (pass timestamp)
-    game.update(performance.now());
   } catch (err: any) {
     // Log runtime errors and stop the loop
     const stack = err && err.stack ? err.stack : String(err);
     console.error('Runtime error in game loop', stack);
     return;
   }
-  if (game.state.isRunning) {
-    requestAnimationFrame(gameLoop);
+  requestAnimationFrame(gameLoop);
+}
+
+function startReplay(log: ReplayLog) {
+  if (!screens.show('replay')) return;
+  replay = new ReplayPlayer(log);
+  lastFrameTime = performance.now();
+  renderer.fitToViewport(replay.game.state.board);
+}
+
+function stopReplay() {
+  replay = null;
+  screens.back();
+  renderer.fitToViewport(game.state.board);
+}
+
+function exportReplay(log: ReplayLog | null) {
+  if (!log) return;
+  downloadText(`double-replay-${log.seed}.json`, JSON.stringify(log));
+}
+
+async function importReplay(): Promise<string | null> {
+  const text = await pickTextFile();
+  if (text === null) return null;
+  const log = parseReplayLog(text);
+  if (!log) return 'not a replay';
+  startReplay(log);
+  return null;
+}
+
+// Replay controls: Space/Enter play/pause, 1/2/4 speed, arrows scrub 5s,
+// Home back to start, E export, Escape/R leave
+function handleReplayKey(player: ReplayPlayer, key: string) {
+  switch (key) {
+    case ' ':
+    case 'enter':
+      player.togglePlay();
+      break;
+    case '1':
+    case '2':
+    case '4':
+      player.speed = Number(key) as 1 | 2 | 4;
+      break;
+    case 'arrowleft':
+      player.seek(player.position - 5000);
+      break;
+    case 'arrowright':
+      player.seek(player.position + 5000);
+      break;
+    case 'home':
+      player.seek(0);
+      break;
+    case 'e':
+      exportReplay(player.log);
+      break;
+    case 'escape':
+    case 'r':
+      stopReplay();
+      break;
   }
+}
 
-  // Keep rendering while game is running or when game-over overlay should be visible
-  if (game.state.isGameOver && !game.state.isRunning) {
-    requestAnimationFrame(gameLoop);
+// What an in-game action does to the live game or a sandbox
+function playAction(target: Game, action: InputAction) {
+  if (!target.state.currentPiece || !target.state.isRunning) return;
+  switch (action) {
+    case 'moveLeft':
+      target.movePiece(-1, 0);
+      break;
+    case 'moveRight':
+      target.movePiece(1, 0);
+      break;
+    case 'moveDown':
+      target.movePiece(0, 1);
+      break;
+    case 'moveUp':
+      target.movePiece(0, -1);
+      break;
+    case 'rotateCCW':
+      target.rotatePiece(-1);
+      break;
+    case 'rotateCW':
+      target.rotatePiece();
+      break;
+    case 'hold':
+      target.holdPiece();
+      break;
+    case 'place':
+      target.placePiece();
+      break;
   }
 }
 
-function startGame() {
-  game.start();
-  // initial fit
-  renderer.fitToViewport(game.state.board);
-  gameLoop();
+// Game the player controls on this screen, if any
+function controlled(): Game | null {
+  if (screens.current === 'playing') return game;
+  if (screens.current === 'sandbox') return sandbox;
+  return null;
 }
 
-// Example mobile controls integration
-new MobileControls({
+// Mouse, touch and pen controls
+new PointerControls({
   canvasId: 'gameCanvas',
   getLayout: () => {
-    const board = game.state.board;
-    const cellSize = (renderer as any).lastCellSize || Math.max(8, Math.floor(window.innerHeight / board.height));
-    const boardW = board.width * cellSize;
-    const boardH = board.height * cellSize;
-    const offsetX = Math.floor((window.innerWidth - boardW) / 2);
-    const offsetY = Math.max(0, window.innerHeight - boardH);
+    const board = (controlled() ?? game).state.board;
+    const { cellSize, offsetX, offsetY } = renderer.boardLayout(board);
     return { board, cellSize, offsetX, offsetY };
   },
-  getCurrentPiece: () => game.state.currentPiece,
-  onPlace: () => {
-    if (game.state.paused) {
-      game.resume();
-      // Resume rendering loop
-      renderer.fitToViewport(game.state.board);
-      gameLoop();
-      return;
-    }
-    game.placePiece();
-    renderBoard();
-  },
-  onRotateLeft: () => {
-    if (game.state.currentPiece) {
-      // rotate left = 3x rotate right
-      for (let i = 0; i < 3; i++) game.rotatePiece();
-      renderBoard();
-    }
-  },
-  onRotateRight: () => {
-    if (game.state.currentPiece) {
-      game.rotatePiece();
-      renderBoard();
-    }
+  getCurrentPiece: () => controlled()?.state.currentPiece ?? null,
+  onMovePiece: (x, y) => controlled()?.movePieceTo(x, y),
+  onGesture: (gesture) => {
+    const action = settings.gestures[gesture];
+    if (action && controlled()) handleAction(action);
   },
   onUpdate: () => renderBoard(),
-  onRestart: () => {
-    if (game.state.isGameOver && game.state.canRestart !== false) {
-      startGame();
+  longPressMs: () => settings.longPressMs,
+  onTap: (x, y) => {
+    // menus: tap or click a row (left/right half steps adjustable rows)
+    if (screens.menu) {
+      const hit = renderer.menuItemAt(screens.menu, x, y);
+      if (hit) screens.menu.tap(hit.index, hit.side);
       return true;
     }
-    if (game.state.paused) {
-      game.resume();
-      renderer.fitToViewport(game.state.board);
-      gameLoop();
+    if (screens.current === 'replay') {
+      if (replay) replay.togglePlay();
+      return true;
+    }
+    // tap above the board opens the pause menu (or leaves a sandbox)
+    const target = controlled();
+    if (target && y < renderer.boardLayout(target.state.board).offsetY) {
+      if (target === sandbox) leaveSandbox();
+      else pauseGame();
       return true;
     }
     return false;
   },
 });
 
-// Keyboard controls for desktop
+// Keyboard controls for desktop: menu screens take keys first
 window.addEventListener('keydown', (e) => {
-  // If game over, allow Space/Enter to restart
-  if (game.state.isGameOver && (e.key === ' ' || e.key.toLowerCase() === 'enter')) {
-    if (game.state.canRestart === false) return;
-    startGame();
-    return;
-  }
-  // If paused, allow Space/Enter to resume
-  if (game.state.paused && (e.key === ' ' || e.key.toLowerCase() === 'enter')) {
-    game.resume();
-    renderer.fitToViewport(game.state.board);
-    gameLoop();
-    return;
-  }
-  if (!game.state.currentPiece || !game.state.isRunning) return;
-  let moved = false;
-  switch (e.key.toLowerCase()) {
-    case 'arrowleft':
-    case 'a':
-      game.movePiece(-1, 0);
-      moved = true;
+  const key = e.key.toLowerCase();
+  switch (screens.current) {
+    case 'replay':
+      if (replay) handleReplayKey(replay, key);
       break;
-    case 'arrowright':
-    case 'd':
-      game.movePiece(1, 0);
-      moved = true;
-      break;
-    case 'arrowdown':
-    case 's':
-      game.movePiece(0, 1);
-      moved = true;
-      break;
-    case 'arrowup':
-    case 'w':
-      game.movePiece(0, -1);
-      moved = true;
-      break;
-    case 'z':
-    case 'y':
-    case 'n':
-      // Rotate left
-      if (game.state.currentPiece) {
-        for (let i = 0; i < 3; i++) game.rotatePiece();
-      }
-      moved = true;
-      break;
-    case 'x':
-    case 'm':
-      // Rotate right
-      game.rotatePiece();
-      moved = true;
-      break;
-    case ' ': // Space
-    case 'enter':
-      game.placePiece();
-      moved = true;
+    case 'playing':
+    case 'sandbox': {
+      const action = actionForKey(settings.keys, key);
+      // Escape leaves a sandbox whatever it is bound to
+      if (screens.current === 'sandbox' && key === 'escape') leaveSandbox();
+      else if (action) handleAction(action);
       break;
-  }
-  if (moved) {
-    if (game.state.currentPiece) {
     }
-    renderBoard();
+    default:
+      screens.handleKey(key);
   }
 });
 
-// Start game automatically after preloading images
+// Show the first screen after preloading images
 init();
@@ -0,0 +1,72 @@
+// menu.ts
+// Minimal menu model drawn on the canvas by Renderer.drawMenu: a list of
+// rows navigated with arrow keys / Enter or by tapping.
+
+export type MenuItem = {
+  label: string;
+  // current value shown next to the label on adjustable rows
+  value?: () => string;
+  // left/right on adjustable rows
+  change?: (delta: -1 | 1) => void;
+  // Enter / tap on action rows
+  select?: () => void;
+};
+
+export class Menu {
+  title: string;
+  items: MenuItem[];
+  selected = 0;
+  // read-only text shown between the title and the rows (e.g. a game summary)
+  lines: string[] = [];
+  // Escape / back
+  onBack?: () => void;
+
+  constructor(title: string, items: MenuItem[], onBack?: () => void) {
+    this.title = title;
+    this.items = items;
+    this.onBack = onBack;
+  }
+
+  // Handle a lower-cased KeyboardEvent.key. Returns true if it was used.
+  handleKey(key: string): boolean {
+    const item = this.items[this.selected];
+    switch (key) {
+      case 'arrowup':
+      case 'w':
+        this.selected = (this.selected + this.items.length - 1) % this.items.length;
+        return true;
+      case 'arrowdown':
+      case 's':
+        this.selected = (this.selected + 1) % this.items.length;
+        return true;
+      case 'arrowleft':
+      case 'a':
+        if (item && item.change) item.change(-1);
+        return true;
+      case 'arrowright':
+      case 'd':
+        if (item && item.change) item.change(1);
+        return true;
+      case ' ':
+      case 'enter':
+        if (item && item.select) item.select();
+        else if (item && item.change) item.change(1);
+        return true;
+      case 'escape':
+      case 'backspace':
+        if (this.onBack) this.onBack();
+        return true;
+    }
+    return false;
+  }
+
+  // Tap on a row; side is -1 for its left half and 1 for its right half.
+  // Adjustable rows step down/up, action rows are selected.
+  tap(index: number, side: -1 | 1) {
+    const item = this.items[index];
+    if (!item) return;
+    this.selected = index;
+    if (item.change) item.change(side);
+    else if (item.select) item.select();
+  }
+}
@@ -0,0 +1,26 @@
+// modes.ts
+// Game modes selectable at the start of a game. A mode decides how pieces
+// are drawn; scores are only comparable within the same mode.
+import type { RandomizerKind } from './randomizer';
+
+export type GameMode = {
+  id: string;
+  name: string;
+  description: string;
+  randomizer: RandomizerKind;
+  // per-shape weights for the weighted and adaptive randomizers (PIECE_SHAPES order)
+  weights?: number[];
+};
+
+export const GAME_MODES: GameMode[] = [
+  { id: 'classic', name: 'Classic', description: 'Every piece equally likely', randomizer: 'uniform' },
+  { id: 'bag', name: 'Fair Bag', description: 'All 12 pieces once per bag', randomizer: 'bag' },
+  { id: 'relaxed', name: 'Relaxed', description: 'More corners, fewer big pieces', randomizer: 'weighted' },
+  { id: 'assist', name: 'Assist', description: 'Favours pieces that close a loop', randomizer: 'adaptive' },
+];
+
+export const DEFAULT_MODE_ID = 'classic';
+
+export function getMode(id: string | undefined): GameMode {
+  return GAME_MODES.find((m) => m.id === id) ?? GAME_MODES[0];
+}
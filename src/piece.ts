@@ -1,6 +1,7 @@
 // piece.ts
 // Game piece logic for the TypeScript/HTML5 double
 import { CELL_EMPTY, CELL_LU, CELL_LO, CELL_RO, CELL_RU, CELL_WG, CELL_SK } from './board';
+import type { Board } from './board';
 
 export type PieceShape = number[][][]; // [rotation][x][y]
 
@@ -229,6 +230,62 @@ export const PIECE_SHAPES: PieceShape[] = [
   ],
 ];
 
+// A piece that hasn't spawned yet (preview queue, hold slot, replays)
+export type PieceSpec = { shapeIndex: number; rotation: number; x: number; y: number };
+
+export function isValidPieceSpec(spec: unknown): spec is PieceSpec {
+  if (!spec || typeof spec !== 'object') return false;
+  const { shapeIndex, rotation, x, y } = spec as Record<string, unknown>;
+  return (
+    Number.isInteger(shapeIndex) &&
+    (shapeIndex as number) >= 0 &&
+    (shapeIndex as number) < PIECE_SHAPES.length &&
+    // Piece.shape has nothing to show for a rotation the shape doesn't have
+    Number.isInteger(rotation) &&
+    (rotation as number) >= 0 &&
+    (rotation as number) < PIECE_SHAPES[shapeIndex as number].length &&
+    Number.isInteger(x) &&
+    Number.isInteger(y)
+  );
+}
+
+// Occupied columns / rows of a shape ([x][y]); null for an empty shape
+export function shapeBounds(shape: number[][]) {
+  let minCol = Number.POSITIVE_INFINITY;
+  let maxCol = Number.NEGATIVE_INFINITY;
+  let minRow = Number.POSITIVE_INFINITY;
+  let maxRow = Number.NEGATIVE_INFINITY;
+  for (let cx = 0; cx < shape.length; cx++) {
+    for (let cy = 0; cy < shape[cx].length; cy++) {
+      if (shape[cx][cy] !== CELL_EMPTY) {
+        if (cx < minCol) minCol = cx;
+        if (cx > maxCol) maxCol = cx;
+        if (cy < minRow) minRow = cy;
+        if (cy > maxRow) maxRow = cy;
+      }
+    }
+  }
+  return minCol === Number.POSITIVE_INFINITY ? null : { minCol, maxCol, minRow, maxRow };
+}
+
+// Piece position (x, y) moved just far enough that every tile is on the board
+export function clampToBoard(shape: number[][], board: Board, x: number, y: number) {
+  const b = shapeBounds(shape);
+  if (!b) return { x, y };
+  return {
+    x: Math.min(board.width - 1 - b.maxCol, Math.max(-b.minCol, x)),
+    y: Math.min(board.height - 1 - b.maxRow, Math.max(-b.minRow, y)),
+  };
+}
+
+// Cell of a shape that rotation turns about: the middle of its occupied
+// columns and rows (rounded up / left when there is no single middle)
+export function shapePivot(shape: number[][]) {
+  const b = shapeBounds(shape);
+  if (!b) return { x: 0, y: 0 };
+  return { x: Math.floor((b.minCol + b.maxCol) / 2), y: Math.floor((b.minRow + b.maxRow) / 2) };
+}
+
 export class Piece {
   shapes: number[][][]; // [rotation][x][y]
   rotation: number;
@@ -251,14 +308,18 @@ export class Piece {
     this.y += dy;
   }
 
-  rotate() {
-    // If there are multiple rotations defined, use them
-    if (this.shapes.length > 1) {
-      this.rotation = (this.rotation + 1) % this.shapes.length;
-    } else {
-      // single-rotation pieces should not change their shape when rotated
-      return;
-    }
+  // Turn clockwise (dir 1) or counter-clockwise (dir -1) about the pivot, the
+  // middle tile of the piece (see shapePivot). The pivot stays on its cell, so
+  // the piece doesn't wander across the board and a full turn ends where it
+  // started.
+  rotate(dir: 1 | -1 = 1) {
+    // single-rotation pieces should not change their shape when rotated
+    if (this.shapes.length <= 1) return;
+    const before = shapePivot(this.shape);
+    this.rotation = (this.rotation + dir + this.shapes.length) % this.shapes.length;
+    const after = shapePivot(this.shape);
+    this.x += before.x - after.x;
+    this.y += before.y - after.y;
   }
 
   placeOnBoard(board: import('./board').Board) {
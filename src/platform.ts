@@ -0,0 +1,30 @@
+// platform.ts
+// Environment services the game engine depends on. The engine only talks to
+// these interfaces so the rules run the same in the browser and in Node.
+import type { RngFactory } from './random';
+
+// Time source and timers (ms)
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+}
+
+// String key/value persistence (localStorage-like)
+export interface KeyValueStorage {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+// Vibration feedback
+export interface Haptics {
+  vibrate(pattern: number | number[]): void;
+}
+
+export type Platform = {
+  clock: Clock;
+  storage: KeyValueStorage;
+  haptics: Haptics;
+  rngFactory: RngFactory;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Board } from './board';
+import { clampToBoard } from './piece';
+import { hoverPosition } from './pointerControls';
+
+// [x][y]: tiles in columns 1-2 of row 1, so the piece sits one cell in from its position
+const SHAPE = [
+  [0, 0],
+  [0, 1],
+  [0, 1],
+];
+
+const layout = { board: new Board(10, 20), cellSize: 10, offsetX: 100, offsetY: 50 };
+
+describe('pointer controls', () => {
+  it('keeps every tile of a piece on the board', () => {
+    expect(clampToBoard(SHAPE, layout.board, 4, 5)).toEqual({ x: 4, y: 5 });
+    expect(clampToBoard(SHAPE, layout.board, -5, -5)).toEqual({ x: -1, y: -1 });
+    expect(clampToBoard(SHAPE, layout.board, 20, 30)).toEqual({ x: 7, y: 18 });
+  });
+
+  it('puts the middle of the piece on the hovered cell', () => {
+    // cell (3, 7)
+    expect(hoverPosition(SHAPE, layout, 135, 122)).toEqual({ x: 2, y: 6 });
+    // off the board the piece stops at the edge
+    expect(hoverPosition(SHAPE, layout, 0, 0)).toEqual({ x: -1, y: -1 });
+    expect(hoverPosition(SHAPE, layout, 1000, 1000)).toEqual({ x: 7, y: 18 });
+    expect(hoverPosition([[0]], layout, 135, 122)).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+// pointerControls.ts
+// Handles mouse, touch and pen controls for the game through Pointer Events
+// Features implemented:
+// - Mouse: the current piece follows the hovered cell
+// - Touch / pen drag moves the current piece 1:1 with the finger (pixel-accurate -> cell fractional positions)
+// - Clicks, the wheel, taps on either half of the board, two-finger taps and
+//   long presses are reported as gestures; the gesture bindings decide what
+//   they do (by default: left-click places, right-click / wheel / taps
+//   rotate, middle-click / two fingers hold, long press places)
+// - Short taps and clicks go to onTap first so menus and the replay screen can claim them
+
+import type { Gesture } from './bindings';
+import type { Board } from './board';
+import { clampToBoard, shapeBounds, shapePivot } from './piece';
+import type { Piece } from './piece';
+
+type Layout = { board: Board; cellSize: number; offsetX: number; offsetY: number };
+
+// A wheel (or trackpad) scrolling on repeats its gesture once per WHEEL_STEP_MS
+const WHEEL_STEP_MS = 150;
+
+// Piece position that puts the pivot (middle tile) of the piece on the cell
+// under the pointer, clamped to the board; null for an empty shape
+export function hoverPosition(shape: number[][], layout: Layout, clientX: number, clientY: number) {
+  if (!shapeBounds(shape)) return null;
+  const pivot = shapePivot(shape);
+  const col = Math.floor((clientX - layout.offsetX) / layout.cellSize);
+  const row = Math.floor((clientY - layout.offsetY) / layout.cellSize);
+  return clampToBoard(shape, layout.board, col - pivot.x, row - pivot.y);
+}
+
+export class PointerControls {
+  private getLayout: () => Layout;
+  private getCurrentPiece: () => Piece | null;
+  private onMovePiece: (x: number, y: number) => void;
+  private onGesture: (gesture: Gesture) => void;
+  private onUpdate: () => void;
+  private onTap?: (x: number, y: number) => boolean;
+  private longPressMs: () => number;
+
+  constructor(opts: {
+    canvasId: string;
+    getLayout: () => Layout;
+    getCurrentPiece: () => Piece | null;
+    onMovePiece: (x: number, y: number) => void; // move current piece to board cell
+    onGesture: (gesture: Gesture) => void;
+    onUpdate: () => void; // redraw callback
+    onTap?: (x: number, y: number) => boolean; // short tap / left-click at canvas position; return true if handled (menus)
+    longPressMs?: () => number; // hold time of a long press (read on every touch; default 250)
+  }) {
+    const canvas = document.getElementById(opts.canvasId) as HTMLCanvasElement;
+    if (!canvas) throw new Error('Canvas element not found');
+    this.getLayout = opts.getLayout;
+    this.getCurrentPiece = opts.getCurrentPiece;
+    this.onMovePiece = opts.onMovePiece;
+    this.onGesture = opts.onGesture;
+    this.onUpdate = opts.onUpdate;
+    this.onTap = opts.onTap;
+    this.longPressMs = opts.longPressMs ?? (() => 250);
+
+    // touch / pen: where each pointer that is down started, and which one drags
+    const pointers = new Map<number, { x: number; y: number }>();
+    let primaryId = -1;
+    let startX = 0;
+    let startY = 0;
+    let startPieceX = 0;
+    let startPieceY = 0;
+    let dragging = false;
+    let moved = false;
+    let longPressTimeout: number | null = null;
+    let longPress = false;
+    // set while a second finger is down; cancelled if the fingers move
+    let twoFingerTap = false;
+    // mouse: last position over the canvas, and the last wheel rotation
+    let mouseX: number | null = null;
+    let mouseY = 0;
+    let lastWheel = Number.NEGATIVE_INFINITY;
+
+    const cancelLongPress = () => {
+      if (longPressTimeout !== null) {
+        window.clearTimeout(longPressTimeout);
+        longPressTimeout = null;
+      }
+    };
+
+    // Mouse hover: bring the piece under the pointer
+    const follow = () => {
+      const piece = this.getCurrentPiece();
+      if (!piece || mouseX === null) return;
+      const pos = hoverPosition(piece.shape, this.getLayout(), mouseX, mouseY);
+      if (!pos || (pos.x === piece.x && pos.y === piece.y)) return;
+      this.onMovePiece(pos.x, pos.y);
+      this.onUpdate();
+    };
+
+    // A mouse gesture acts on the piece under the pointer, and whatever piece
+    // comes next starts out there too
+    const mouseGesture = (gesture: Gesture) => {
+      follow();
+      this.onGesture(gesture);
+      follow();
+      this.onUpdate();
+    };
+
+    const mousedown = (e: PointerEvent) => {
+      mouseX = e.clientX;
+      mouseY = e.clientY;
+      if (e.button === 1) {
+        // no autoscroll
+        e.preventDefault();
+        mouseGesture('middleClick');
+      } else if (e.button === 2) {
+        mouseGesture('rightClick');
+      } else if (e.button === 0 && !(this.onTap && this.onTap(e.clientX, e.clientY))) {
+        mouseGesture('leftClick');
+      }
+    };
+
+    const pointerdown = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse') {
+        mousedown(e);
+        return;
+      }
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      try {
+        canvas.setPointerCapture(e.pointerId);
+      } catch (err) {
+        // ignore
+      }
+      if (pointers.size >= 2) {
+        // second finger: this is a two-finger tap, not a drag or long-press
+        twoFingerTap = true;
+        cancelLongPress();
+        return;
+      }
+      twoFingerTap = false;
+      primaryId = e.pointerId;
+      startX = e.clientX;
+      startY = e.clientY;
+      moved = false;
+      dragging = false;
+      longPress = false;
+      cancelLongPress();
+      const p = this.getCurrentPiece();
+      if (p) {
+        startPieceX = p.x;
+        startPieceY = p.y;
+      } else {
+        startPieceX = 0;
+        startPieceY = 0;
+      }
+      // Start a long-press timer. If it fires, it is a long press.
+      longPressTimeout = window.setTimeout(() => {
+        longPress = true;
+        this.onGesture('longPress');
+        longPressTimeout = null;
+      }, this.longPressMs());
+    };
+
+    const pointermove = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse') {
+        mouseX = e.clientX;
+        mouseY = e.clientY;
+        follow();
+        return;
+      }
+      const start = pointers.get(e.pointerId);
+      if (!start) return;
+      if (twoFingerTap) {
+        const dx = e.clientX - start.x;
+        const dy = e.clientY - start.y;
+        if (dx * dx + dy * dy > 100) twoFingerTap = false;
+        return;
+      }
+      if (e.pointerId !== primaryId) return;
+      const dx = e.clientX - startX;
+      const dy = e.clientY - startY;
+      // If user moved more than a few pixels, consider it a drag
+      if (dx * dx + dy * dy > 9) {
+        dragging = true;
+      }
+      // If dragging started, cancel long-press so it doesn't trigger
+      if (dragging) cancelLongPress();
+      moved = true;
+
+      const layout = this.getLayout();
+      const piece = this.getCurrentPiece();
+      if (!piece) return;
+      // Finger movement in pixels maps to cell movement; snap to integer and
+      // keep the piece on the board
+      const pos = clampToBoard(
+        piece.shape,
+        layout.board,
+        Math.round(startPieceX + dx / layout.cellSize),
+        Math.round(startPieceY + dy / layout.cellSize),
+      );
+      this.onMovePiece(pos.x, pos.y);
+      // notify for redraw
+      this.onUpdate();
+    };
+
+    const pointerup = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+      if (twoFingerTap) {
+        // fire once the last finger lifts
+        if (pointers.size === 0) {
+          twoFingerTap = false;
+          moved = true;
+          this.onGesture('twoFingerTap');
+        }
+        return;
+      }
+      if (e.pointerId !== primaryId) return;
+      primaryId = -1;
+      const dx = e.clientX - startX;
+      const dy = e.clientY - startY;
+      // clear any pending long-press timer
+      cancelLongPress();
+      // If longPress triggered, the timer already reported it; do nothing
+      if (longPress) {
+        longPress = false;
+        return;
+      }
+
+      // If this was a short tap (no drag / small movement), it is a tap on one half of the board
+      if (!moved || (Math.abs(dx) < 8 && Math.abs(dy) < 8)) {
+        // Screens other than the game itself (menus, replay) take the tap first
+        if (this.onTap && this.onTap(e.clientX, e.clientY)) {
+          return;
+        }
+        const layout = this.getLayout();
+        const boardCenterX = layout.offsetX + (layout.board.width * layout.cellSize) / 2;
+        this.onGesture(e.clientX < boardCenterX ? 'tapLeft' : 'tapRight');
+        return;
+      }
+
+      // End of drag: snap to nearest integer cell positions inside the board
+      const piece = this.getCurrentPiece();
+      if (piece) {
+        const pos = clampToBoard(piece.shape, this.getLayout().board, Math.round(piece.x), Math.round(piece.y));
+        this.onMovePiece(pos.x, pos.y);
+        this.onUpdate();
+      }
+    };
+
+    // The browser took the pointer away (scrolling, a system gesture): no tap, no placement
+    const pointercancel = (e: PointerEvent) => {
+      if (!pointers.delete(e.pointerId)) return;
+      if (pointers.size === 0) twoFingerTap = false;
+      if (e.pointerId !== primaryId) return;
+      primaryId = -1;
+      cancelLongPress();
+    };
+
+    const wheel = (e: WheelEvent) => {
+      e.preventDefault();
+      if (e.deltaY === 0 || e.timeStamp - lastWheel < WHEEL_STEP_MS) return;
+      lastWheel = e.timeStamp;
+      mouseX = e.clientX;
+      mouseY = e.clientY;
+      mouseGesture(e.deltaY < 0 ? 'wheelUp' : 'wheelDown');
+    };
+
+    canvas.addEventListener('pointerdown', pointerdown);
+    canvas.addEventListener('pointermove', pointermove);
+    canvas.addEventListener('pointerup', pointerup);
+    canvas.addEventListener('pointercancel', pointercancel);
+    canvas.addEventListener('pointerleave', (e) => {
+      if (e.pointerType === 'mouse') mouseX = null;
+    });
+    canvas.addEventListener('wheel', wheel, { passive: false });
+    // right-click is a gesture, not the context menu
+    canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+  }
+}
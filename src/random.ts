@@ -0,0 +1,56 @@
+// random.ts
+// Seedable pseudo-random number generators used for piece generation.
+// A game started with a given seed always produces the same spawn sequence.
+
+export interface Rng {
+  // seed the generator was created with
+  readonly seed: number;
+  // next float in [0, 1)
+  next(): number;
+  // next integer in [0, max)
+  nextInt(max: number): number;
+  // internal state so a running sequence can be saved and resumed
+  getState(): number;
+  setState(state: number): void;
+}
+
+// Factory used by Game to create its generator (pluggable for other algorithms)
+export type RngFactory = (seed: number) => Rng;
+
+// Mulberry32: small, fast 32-bit generator with good enough distribution for a game
+export class Mulberry32 implements Rng {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+}
+
+export const createMulberry32: RngFactory = (seed) => new Mulberry32(seed);
+
+// Pick a fresh seed for a new game (not reproducible by design)
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
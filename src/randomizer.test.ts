@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './game';
+import { createHeadlessGame, createHeadlessPlatform } from './headless';
+import { GAME_MODES } from './modes';
+import { PIECE_SHAPES } from './piece';
+import { Mulberry32 } from './random';
+import { AdaptiveRandomizer, BagRandomizer, canCloseLoop, UniformRandomizer, WeightedRandomizer } from './randomizer';
+import { boardFromRows } from './testFixtures';
+
+const SMALL_CORNER = 0;
+const HONEYNUT = 8;
+
+const draw = (next: () => number, n: number) => Array.from({ length: n }, next);
+
+describe('UniformRandomizer', () => {
+  it('draws the same shapes as the rng directly', () => {
+    const a = new Mulberry32(9);
+    const b = new Mulberry32(9);
+    const r = new UniformRandomizer();
+    expect(draw(() => r.nextShape(a), 50)).toEqual(draw(() => b.nextInt(PIECE_SHAPES.length), 50));
+  });
+});
+
+describe('BagRandomizer', () => {
+  it('deals every shape exactly once per bag', () => {
+    const rng = new Mulberry32(4);
+    const r = new BagRandomizer();
+    for (let bag = 0; bag < 5; bag++) {
+      const shapes = draw(() => r.nextShape(rng), PIECE_SHAPES.length);
+      expect([...shapes].sort((x, y) => x - y)).toEqual(PIECE_SHAPES.map((_, i) => i));
+    }
+  });
+
+  it('continues a partly used bag after restoring its state', () => {
+    const rngA = new Mulberry32(4);
+    const a = new BagRandomizer();
+    draw(() => a.nextShape(rngA), 5);
+    const b = new BagRandomizer();
+    b.setState(a.getState());
+    const rngB = new Mulberry32(0);
+    rngB.setState(rngA.getState());
+    expect(draw(() => b.nextShape(rngB), 20)).toEqual(draw(() => a.nextShape(rngA), 20));
+  });
+});
+
+describe('WeightedRandomizer', () => {
+  it('never draws shapes with zero weight', () => {
+    const rng = new Mulberry32(1);
+    const weights = PIECE_SHAPES.map((_, i) => (i === SMALL_CORNER || i === HONEYNUT ? 1 : 0));
+    const r = new WeightedRandomizer(weights);
+    expect(new Set(draw(() => r.nextShape(rng), 200))).toEqual(new Set([SMALL_CORNER, HONEYNUT]));
+  });
+
+  it('follows the weights roughly', () => {
+    const rng = new Mulberry32(2);
+    const weights = PIECE_SHAPES.map((_, i) => (i === SMALL_CORNER ? 3 : i === HONEYNUT ? 1 : 0));
+    const r = new WeightedRandomizer(weights);
+    const shapes = draw(() => r.nextShape(rng), 4000);
+    const corners = shapes.filter((s) => s === SMALL_CORNER).length;
+    expect(corners / shapes.length).toBeGreaterThan(0.7);
+    expect(corners / shapes.length).toBeLessThan(0.8);
+  });
+});
+
+describe('AdaptiveRandomizer', () => {
+  const openLoop = boardFromRows([
+    '┌─┐.',
+    '│.│.',
+    '└─..',
+    '....',
+  ]);
+
+  it('knows which shapes can close an open loop', () => {
+    // a single ┘ corner closes it
+    expect(canCloseLoop(openLoop, SMALL_CORNER)).toBe(true);
+    // nothing to close on an empty board
+    expect(canCloseLoop(boardFromRows(['....', '....']), SMALL_CORNER)).toBe(false);
+  });
+
+  it('favours shapes that close a loop', () => {
+    const rng = new Mulberry32(3);
+    const weights = PIECE_SHAPES.map((_, i) => (i === SMALL_CORNER || i === 1 ? 1 : 0));
+    const r = new AdaptiveRandomizer(weights, 9);
+    const shapes = draw(() => r.nextShape(rng, openLoop), 2000);
+    const corners = shapes.filter((s) => s === SMALL_CORNER).length;
+    // 9:1 instead of 1:1
+    expect(corners / shapes.length).toBeGreaterThan(0.85);
+  });
+});
+
+describe('game modes', () => {
+  it.each(GAME_MODES.map((m) => m.id))('reproduces the spawn sequence of mode %s from its seed', (mode) => {
+    const sequence = () => {
+      const h = createHeadlessGame({ seed: 12, mode });
+      return draw(() => {
+        const p = h.game.state.currentPiece!;
+        h.game.spawnPiece();
+        return PIECE_SHAPES.indexOf(p.shapes);
+      }, 30);
+    };
+    expect(sequence()).toEqual(sequence());
+  });
+
+  it('keeps the mode and its bag across save and restore', () => {
+    const h = createHeadlessGame({ seed: 12, mode: 'bag' });
+    for (let i = 0; i < 5; i++) h.game.spawnPiece();
+    h.game.saveState();
+    const restored = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect(restored.state.modeId).toBe('bag');
+    for (let i = 0; i < 20; i++) {
+      h.game.spawnPiece();
+      restored.spawnPiece();
+      expect(restored.state.currentPiece!.shapes).toBe(h.game.state.currentPiece!.shapes);
+    }
+  });
+
+  it('keeps the previous mode when restarting without one', () => {
+    const h = createHeadlessGame({ seed: 1, mode: 'relaxed' });
+    h.game.start();
+    expect(h.game.state.modeId).toBe('relaxed');
+    expect(h.game.getReplayLog()!.mode).toBe('relaxed');
+  });
+});
@@ -0,0 +1,225 @@
+// randomizer.ts
+// Strategies for choosing which shape spawns next. All of them draw from the
+// game's seeded Rng so a seed still reproduces the whole game.
+import { Board, CELL_EMPTY, CELL_LO, CELL_LU, CELL_RO, CELL_RU, CELL_SK, CELL_WG } from './board';
+import { PIECE_SHAPES } from './piece';
+import type { Rng } from './random';
+
+export type RandomizerKind = 'uniform' | 'bag' | 'weighted' | 'adaptive';
+
+export interface PieceRandomizer {
+  readonly kind: RandomizerKind;
+  // index into PIECE_SHAPES
+  nextShape(rng: Rng, board: Board): number;
+  // strategy state that must survive a save/load (e.g. the remaining bag)
+  getState(): unknown;
+  setState(state: unknown): void;
+}
+
+// Every shape equally likely on every draw (the original behaviour)
+export class UniformRandomizer implements PieceRandomizer {
+  readonly kind = 'uniform';
+
+  nextShape(rng: Rng): number {
+    return rng.nextInt(PIECE_SHAPES.length);
+  }
+
+  getState(): unknown {
+    return null;
+  }
+
+  setState() {}
+}
+
+// Shuffled bag: every shape once per 12 pieces, so no droughts or floods
+export class BagRandomizer implements PieceRandomizer {
+  readonly kind = 'bag';
+  private bag: number[] = [];
+
+  nextShape(rng: Rng): number {
+    if (this.bag.length === 0) {
+      this.bag = PIECE_SHAPES.map((_, i) => i);
+      // Fisher-Yates shuffle
+      for (let i = this.bag.length - 1; i > 0; i--) {
+        const j = rng.nextInt(i + 1);
+        [this.bag[i], this.bag[j]] = [this.bag[j], this.bag[i]];
+      }
+    }
+    return this.bag.pop()!;
+  }
+
+  getState(): unknown {
+    return this.bag.slice();
+  }
+
+  setState(state: unknown) {
+    this.bag = Array.isArray(state) ? state.filter((i) => Number.isInteger(i) && i >= 0 && i < PIECE_SHAPES.length) : [];
+  }
+}
+
+// Default weights in PIECE_SHAPES order: more corners and straights, fewer
+// of the big awkward pieces.
+export const DEFAULT_SHAPE_WEIGHTS = [
+  3, // small corner
+  2, // short straight
+  2, // long straight
+  1, // s-piece 1
+  1, // s-piece 2
+  2, // u-turn
+  1, // noname 1
+  1, // noname 2
+  0.5, // honeynut loop
+  1, // wulst
+  0.5, // graffl
+  2, // large corner
+];
+
+// Pick a shape with probability proportional to its weight
+function pickWeighted(rng: Rng, weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+  if (total <= 0) return rng.nextInt(PIECE_SHAPES.length);
+  let r = rng.next() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= Math.max(0, weights[i]);
+    if (r < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+export class WeightedRandomizer implements PieceRandomizer {
+  readonly kind = 'weighted';
+  private weights: number[];
+
+  constructor(weights: number[] = DEFAULT_SHAPE_WEIGHTS) {
+    this.weights = PIECE_SHAPES.map((_, i) => weights[i] ?? 1);
+  }
+
+  nextShape(rng: Rng): number {
+    return pickWeighted(rng, this.weights);
+  }
+
+  getState(): unknown {
+    return null;
+  }
+
+  setState() {}
+}
+
+// Open ports per cell type: UP, DOWN, LEFT, RIGHT (same mapping as Board.detectLoop)
+const PORTS: Record<number, [boolean, boolean, boolean, boolean]> = {
+  [CELL_LU]: [true, false, false, true],
+  [CELL_LO]: [false, true, false, true],
+  [CELL_RO]: [false, true, true, false],
+  [CELL_RU]: [true, false, true, false],
+  [CELL_WG]: [false, false, true, true],
+  [CELL_SK]: [true, true, false, false],
+};
+const DELTAS = [
+  { dx: 0, dy: -1 },
+  { dx: 0, dy: 1 },
+  { dx: -1, dy: 0 },
+  { dx: 1, dy: 0 },
+];
+
+// Empty cells that an existing tile points into (where a loop could continue)
+function openEnds(board: Board): { x: number; y: number }[] {
+  const ends: { x: number; y: number }[] = [];
+  const seen = new Set<string>();
+  for (let y = 0; y < board.height; y++) {
+    for (let x = 0; x < board.width; x++) {
+      const ports = PORTS[board.grid[y][x]];
+      if (!ports) continue;
+      for (let d = 0; d < 4; d++) {
+        if (!ports[d]) continue;
+        const nx = x + DELTAS[d].dx;
+        const ny = y + DELTAS[d].dy;
+        if (nx < 0 || ny < 0 || nx >= board.width || ny >= board.height) continue;
+        if (board.grid[ny][nx] !== CELL_EMPTY) continue;
+        const k = `${nx},${ny}`;
+        if (!seen.has(k)) {
+          seen.add(k);
+          ends.push({ x: nx, y: ny });
+        }
+      }
+    }
+  }
+  return ends;
+}
+
+// True if some rotation and position of the shape fills an open end and
+// closes a loop on the board.
+export function canCloseLoop(board: Board, shapeIndex: number, ends = openEnds(board)): boolean {
+  if (ends.length === 0) return false;
+  // scratch copy; candidate tiles are written and cleared again in place
+  const probe = new Board(board.width, board.height);
+  probe.grid = board.grid.map((row) => row.slice());
+  for (const shape of PIECE_SHAPES[shapeIndex]) {
+    const tiles: { x: number; y: number; cell: number }[] = [];
+    for (let x = 0; x < shape.length; x++) {
+      for (let y = 0; y < shape[x].length; y++) {
+        if (shape[x][y] !== CELL_EMPTY) tiles.push({ x, y, cell: shape[x][y] });
+      }
+    }
+    for (const end of ends) {
+      // align each tile of the piece with the open end
+      for (const anchor of tiles) {
+        const px = end.x - anchor.x;
+        const py = end.y - anchor.y;
+        let fits = true;
+        for (const t of tiles) {
+          const bx = px + t.x;
+          const by = py + t.y;
+          if (bx < 0 || by < 0 || bx >= board.width || by >= board.height || board.grid[by][bx] !== CELL_EMPTY) {
+            fits = false;
+            break;
+          }
+        }
+        if (!fits) continue;
+        for (const t of tiles) probe.setCell(px + t.x, py + t.y, t.cell);
+        const closes = tiles.some((t) => probe.detectLoop(px + t.x, py + t.y) !== null);
+        for (const t of tiles) probe.setCell(px + t.x, py + t.y, CELL_EMPTY);
+        if (closes) return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Favours shapes that can close an open loop on the current board. With a
+// preview queue the board is looked at when the piece is queued.
+export class AdaptiveRandomizer implements PieceRandomizer {
+  readonly kind = 'adaptive';
+  private weights: number[];
+  private boost: number;
+
+  constructor(weights: number[] = DEFAULT_SHAPE_WEIGHTS, boost = 4) {
+    this.weights = PIECE_SHAPES.map((_, i) => weights[i] ?? 1);
+    this.boost = boost;
+  }
+
+  nextShape(rng: Rng, board: Board): number {
+    const ends = openEnds(board);
+    const weights = this.weights.map((w, i) => (canCloseLoop(board, i, ends) ? w * this.boost : w));
+    return pickWeighted(rng, weights);
+  }
+
+  getState(): unknown {
+    return null;
+  }
+
+  setState() {}
+}
+
+export function createRandomizer(kind: RandomizerKind, weights?: number[]): PieceRandomizer {
+  switch (kind) {
+    case 'bag':
+      return new BagRandomizer();
+    case 'weighted':
+      return new WeightedRandomizer(weights);
+    case 'adaptive':
+      return new AdaptiveRandomizer(weights);
+    case 'uniform':
+    default:
+      return new UniformRandomizer();
+  }
+}
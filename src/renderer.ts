@@ -3,6 +3,15 @@
 import { CELL_EMPTY } from './board';
 import { CELL_IMAGE_MAP } from './cellImages';
 import { CELL_BOARD_IMAGE_MAP } from './cellBoardImages';
+import type { PlacementPreview } from './game';
+import { PIECE_SHAPES, shapeBounds } from './piece';
+import type { PieceSpec } from './piece';
+import type { Menu } from './menu';
+
+// Tints of the hovering piece (see drawPiece)
+const PREVIEW_VALID = 'rgba(110, 220, 120, 0.25)';
+const PREVIEW_BLOCKED = 'rgba(230, 60, 60, 0.55)';
+const PREVIEW_EXACT = 'rgba(242, 201, 76, 0.4)';
 
 export class Renderer {
   private canvas: HTMLCanvasElement;
@@ -14,6 +23,8 @@ export class Renderer {
   private doubleImg: HTMLImageElement;
   // last computed cell size in device pixels
   private lastCellSize = 40;
+  // Reduced motion: popups fade in place and the board-clear flash holds still
+  reducedMotion = false;
 
   constructor(canvasId: string) {
     const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -102,6 +113,17 @@ export class Renderer {
     return cellSize;
   }
 
+  // Cell size and pixel position of the centered board (shared with input
+  // handling so touches map to the same cells that are drawn)
+  boardLayout(board: import('./board').Board) {
+    const cellSize = this.lastCellSize || this.computeCellSize(board);
+    const boardW = board.width * cellSize;
+    const boardH = board.height * cellSize;
+    const offsetX = Math.floor((this.canvas.width - boardW) / 2);
+    const offsetY = Math.floor((this.canvas.height - boardH) / 2);
+    return { cellSize, boardW, boardH, offsetX, offsetY };
+  }
+
   drawText(text: string, x: number, y: number, color = 'black', font = '20px monospace') {
     this.ctx.fillStyle = color;
     this.ctx.font = font;
@@ -144,14 +166,14 @@ export class Renderer {
     return;
   }
 
-  // Draw HUD elements like timer bar and game over text. Expects full game state
-  drawHUD(state: any) {
+  // Draw HUD elements like timer bar and game over text. Expects full game state.
+  // `now` must come from the same clock as the game (replays use a manual clock).
+  drawHUD(state: any, now: number = performance.now()) {
   const board: import('./board').Board = state.board;
-  const cellSize = this.lastCellSize || this.computeCellSize(board);
-  const boardW = board.width * cellSize;
-    const boardH = board.height * cellSize;
-    const offsetX = Math.floor((this.canvas.width - boardW) / 2);
-    const offsetY = Math.floor((this.canvas.height - boardH) / 2);
+    const { cellSize, boardW, boardH, offsetX, offsetY } = this.boardLayout(board);
+    // HUD unit: one cell on the classic 10-wide board. Narrower boards scale
+    // the HUD down so texts, previews and the timer still fit side by side.
+    const hud = Math.max(8, Math.min(cellSize, Math.floor(boardW / 10)));
 
     // Highscore and score are relative to the board (drawn within the
     // top area of the board region). Both are bold, beige and semi-opaque.
@@ -159,7 +181,6 @@ export class Renderer {
     const alpha = 0.5;
     // Compute double-flash on/off state if active (state.doubleFlashStart)
     let doubleOpacity = 0;
-    const now = (typeof performance !== 'undefined') ? performance.now() : Date.now();
     if (state.doubleFlashStart && typeof state.doubleFlashDuration === 'number' && typeof state.doubleFlashCount === 'number') {
       const elapsed = now - state.doubleFlashStart;
       const duration = state.doubleFlashDuration;
@@ -171,12 +192,12 @@ export class Renderer {
         const within = elapsed % flashDur;
         const pct = within / flashDur; // 0..1
         // Hard flash: on for first half of each flash period, off for second half.
-        doubleOpacity = pct < 0.5 ? 1 : 0;
+        doubleOpacity = pct < 0.5 || this.reducedMotion ? 1 : 0;
       } else {
         // Do not mutate game state here; simply treat as finished (doubleOpacity remains 0).
       }
     }
-    const fontSize = Math.max(12, Math.floor(cellSize));
+    const fontSize = Math.max(12, Math.floor(hud));
     this.ctx.save();
     this.ctx.fillStyle = beige;
     this.ctx.globalAlpha = alpha;
@@ -184,7 +205,7 @@ export class Renderer {
     this.ctx.textBaseline = 'top';
   const hi = (state.highScores && state.highScores[0]) ? state.highScores[0] : 0;
   this.ctx.textAlign = 'left';
-  const pad = Math.floor(cellSize / 2);
+  const pad = Math.floor(hud / 2);
   // Use lowercase 'hi' prefix without a trailing space as requested
   this.ctx.fillText(`hi${hi}`, offsetX + pad, offsetY + pad);
     this.ctx.textAlign = 'right';
@@ -199,18 +220,30 @@ export class Renderer {
     }
     this.ctx.restore();
 
+    // Held piece below the hi text, dimmed once hold was used for this piece
+    if (state.heldPiece) {
+      const mini = Math.max(4, Math.floor(hud * 0.4));
+      this.ctx.save();
+      this.ctx.globalAlpha = state.holdUsed ? 0.3 : 0.9;
+      this.drawMiniPiece(this.miniLayout(state.heldPiece.shapeIndex, state.heldPiece.rotation), offsetX + pad, offsetY + pad + fontSize + Math.floor(pad / 2), mini);
+      this.ctx.restore();
+    }
+
+    // Upcoming pieces, drawn small between the hi and score texts
+    if (Array.isArray(state.nextPieces) && state.nextPieces.length > 0) {
+      const count = typeof state.previewCount === 'number' ? state.previewCount : state.nextPieces.length;
+      this.drawPreviewQueue(state.nextPieces.slice(0, count), offsetX, offsetY + pad, boardW, hud);
+    }
+
     // Draw timer bar as a HUD on the board (50% opacity).
-    // Position: x = cellSize/2 from left edge of board; width = 9 cells; y = 1.5 cells from bottom; height = 1 cell.
+    // Position: half a HUD unit in from both board edges (full width minus padding);
+    // y = 1.5 units from bottom; height = 1 unit.
     if (typeof state.timerRemaining === 'number' && typeof state.timerDuration === 'number') {
       const pct = Math.max(0, Math.min(1, state.timerRemaining / state.timerDuration));
-  const desiredX = offsetX + Math.floor(cellSize / 2);
-      const desiredW = Math.floor(9 * cellSize);
-      // Clamp width so it doesn't overflow the board area (leave at least half-cell padding on right)
-      const maxW = Math.max(0, boardW - Math.floor(cellSize));
-      const timerW = Math.min(desiredW, maxW);
-      const timerX = desiredX;
-      const timerH = Math.floor(cellSize);
-  const timerY = offsetY + boardH - Math.floor(cellSize * 1.5);
+      const timerX = offsetX + pad;
+      const timerW = Math.max(0, boardW - 2 * pad);
+      const timerH = Math.floor(hud);
+      const timerY = offsetY + boardH - Math.floor(hud * 1.5);
       if (timerW > 0 && timerH > 0) {
         this.ctx.save();
         this.ctx.globalAlpha = 0.5; // 50% opacity per request
@@ -222,6 +255,13 @@ export class Renderer {
         this.ctx.fillStyle = beigeColor;
         const filledW = Math.floor(timerW * pct);
         if (filledW > 0) this.ctx.fillRect(timerX, timerY, filledW, timerH);
+        // Current level just above the bar (the bar length is per level)
+        if (typeof state.level === 'number') {
+          this.ctx.font = `bold ${Math.max(10, Math.floor(hud * 0.6))}px monospace`;
+          this.ctx.textAlign = 'left';
+          this.ctx.textBaseline = 'bottom';
+          this.ctx.fillText(`lv${state.level}`, timerX, timerY - Math.floor(hud * 0.1));
+        }
         this.ctx.restore();
       }
     }
@@ -290,7 +330,7 @@ export class Renderer {
 
     // Render HUD popups if present (global and tile-attached)
     if (state.popups && Array.isArray(state.popups) && state.popups.length > 0) {
-      const now2 = (typeof performance !== 'undefined') ? performance.now() : Date.now();
+      const now2 = now;
       // Draw tile popups first (they are positioned over the board tiles)
       for (const p of state.popups.slice()) {
         const elapsed = now2 - p.start;
@@ -305,7 +345,7 @@ export class Renderer {
           const pyBase = oy + p.boardY * cellSize + Math.floor(cellSize / 2);
           // Float upward: move up by upDist * t where upDist ~ 1.2 * cellSize
           const upDist = Math.floor(cellSize * 1.2);
-          const dy = -Math.floor(upDist * (elapsed / p.duration));
+          const dy = this.reducedMotion ? 0 : -Math.floor(upDist * (elapsed / p.duration));
           this.ctx.save();
           // soft fade: alpha decreases over time
           this.ctx.globalAlpha = Math.max(0, 1 - (elapsed / p.duration));
@@ -318,8 +358,7 @@ export class Renderer {
         }
       }
       // Draw global popups stacked below the HI/score (right side)
-      const pad = Math.floor(this.lastCellSize / 2);
-      let stackY = Math.floor(this.lastCellSize / 2) + pad;
+      let stackY = Math.floor(hud / 2) + pad;
       for (const p of state.popups.slice()) {
         const elapsed = now2 - p.start;
         if (elapsed >= p.duration) continue;
@@ -328,13 +367,13 @@ export class Renderer {
         const alphaP = 1 - t;
         this.ctx.save();
         this.ctx.globalAlpha = alphaP;
-        this.ctx.fillStyle = p.text && p.text.startsWith('+') ? '#cfe8c6' : '#f2b3b3';
-        this.ctx.font = `bold ${Math.max(12, Math.floor(this.lastCellSize * 0.6))}px monospace`;
+        this.ctx.fillStyle = p.color ?? (p.text && p.text.startsWith('+') ? '#cfe8c6' : '#f2b3b3');
+        this.ctx.font = `bold ${Math.max(12, Math.floor(hud * 0.6))}px monospace`;
         this.ctx.textAlign = 'right';
         this.ctx.textBaseline = 'top';
         this.ctx.fillText(p.text, offsetX + boardW - pad, offsetY + stackY);
         this.ctx.restore();
-        stackY += Math.floor(this.lastCellSize * 0.9);
+        stackY += Math.floor(hud * 0.9);
       }
       // Remove expired popups in-place (mutable) to keep state small
       state.popups = state.popups.filter((p: any) => (now2 - p.start) < p.duration);
@@ -365,6 +404,151 @@ export class Renderer {
     }
   }
 
+  // Occupied-cell bounds of a piece rotation, so miniatures line up evenly
+  private miniLayout(shapeIndex: number, rotation: number) {
+    const shapes = PIECE_SHAPES[shapeIndex];
+    const shape = shapes[rotation % shapes.length];
+    let minX = Infinity, maxX = -Infinity, minY = Infinity;
+    for (let x = 0; x < shape.length; x++) {
+      for (let y = 0; y < shape[x].length; y++) {
+        if (shape[x][y] !== CELL_EMPTY) {
+          minX = Math.min(minX, x);
+          maxX = Math.max(maxX, x);
+          minY = Math.min(minY, y);
+        }
+      }
+    }
+    return { shape, minX, minY, w: maxX - minX + 1 };
+  }
+
+  // Draw a piece rotation trimmed to its occupied cells with its top-left at (x0, y0)
+  private drawMiniPiece(layout: ReturnType<Renderer['miniLayout']>, x0: number, y0: number, mini: number) {
+    for (let x = 0; x < layout.shape.length; x++) {
+      for (let y = 0; y < layout.shape[x].length; y++) {
+        const cellType = layout.shape[x][y];
+        if (cellType === CELL_EMPTY) continue;
+        const px = x0 + (x - layout.minX) * mini;
+        const py = y0 + (y - layout.minY) * mini;
+        const img = this.cellImages[cellType];
+        if (img && img.complete && img.naturalWidth !== 0) {
+          this.ctx.drawImage(img, px, py, mini, mini);
+        } else {
+          this.ctx.fillStyle = 'blue';
+          this.ctx.fillRect(px, py, mini, mini);
+        }
+      }
+    }
+  }
+
+  // Draw queued pieces as miniatures in a centered row starting at y
+  private drawPreviewQueue(specs: PieceSpec[], offsetX: number, y: number, boardW: number, hud: number) {
+    const mini = Math.max(4, Math.floor(hud * 0.4));
+    const gap = mini;
+    const layouts = specs.map((spec) => this.miniLayout(spec.shapeIndex, spec.rotation));
+    const totalW = layouts.reduce((sum, l) => sum + l.w * mini, 0) + gap * (layouts.length - 1);
+    let x0 = offsetX + Math.floor((boardW - totalW) / 2);
+    this.ctx.save();
+    layouts.forEach((l, i) => {
+      // the next piece is drawn most prominently
+      this.ctx.globalAlpha = i === 0 ? 0.9 : 0.5;
+      this.drawMiniPiece(l, x0, y, mini);
+      x0 += l.w * mini + gap;
+    });
+    this.ctx.restore();
+  }
+
+  // Replay overlay: label with speed at the top, progress bar along the bottom edge
+  drawReplayHUD(board: import('./board').Board, info: { position: number; duration: number; speed: number; playing: boolean; desynced?: boolean }) {
+    const { cellSize, boardW, boardH, offsetX, offsetY } = this.boardLayout(board);
+    const beige = '#f5f0d7';
+    this.ctx.save();
+    this.ctx.globalAlpha = 0.8;
+    this.ctx.fillStyle = info.desynced ? '#f2b3b3' : beige;
+    this.ctx.font = `bold ${Math.max(10, Math.floor(cellSize * 0.6))}px monospace`;
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    const secs = (ms: number) => {
+      const total = Math.floor(ms / 1000);
+      return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+    };
+    const label = `${info.playing ? 'REPLAY' : 'PAUSED'} ${info.speed}x ${secs(info.position)}/${secs(info.duration)}`;
+    this.ctx.fillText(label, offsetX + Math.floor(boardW / 2), offsetY + Math.floor(cellSize * 1.5));
+    // progress bar on the bottom edge of the board
+    const barH = Math.max(2, Math.floor(cellSize / 4));
+    const barY = offsetY + boardH - barH;
+    const pct = info.duration > 0 ? Math.max(0, Math.min(1, info.position / info.duration)) : 0;
+    this.ctx.fillStyle = 'rgba(0,0,0,0.5)';
+    this.ctx.fillRect(offsetX, barY, boardW, barH);
+    this.ctx.fillStyle = beige;
+    this.ctx.fillRect(offsetX, barY, Math.floor(boardW * pct), barH);
+    this.ctx.restore();
+  }
+
+  // Row geometry shared by drawMenu and menuItemAt; independent of the board
+  // so menus look the same whatever size the board is.
+  private menuLayout(menu: Menu) {
+    // rows are 1.4 units high, text lines 1 unit, plus room for the title
+    const unit = Math.max(14, Math.floor(Math.min(this.canvas.width / 14, this.canvas.height / (menu.items.length * 1.4 + menu.lines.length + 5))));
+    const rowH = Math.floor(unit * 1.4);
+    const lineH = unit;
+    const width = Math.min(this.canvas.width - unit, unit * 12);
+    const x = Math.floor((this.canvas.width - width) / 2);
+    const header = rowH * 2 + lineH * menu.lines.length;
+    const top = Math.floor((this.canvas.height - header - rowH * menu.items.length) / 2) + header;
+    return { unit, rowH, lineH, width, x, top };
+  }
+
+  // Draw a menu as a full-screen overlay on top of whatever was drawn before
+  drawMenu(menu: Menu) {
+    const { unit, rowH, lineH, width, x, top } = this.menuLayout(menu);
+    const beige = '#f5f0d7';
+    this.ctx.save();
+    this.ctx.fillStyle = 'rgba(0,0,0,0.75)';
+    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillStyle = beige;
+    this.ctx.textAlign = 'center';
+    this.ctx.font = `bold ${Math.floor(unit * 1.2)}px monospace`;
+    const linesTop = top - lineH * menu.lines.length;
+    this.ctx.fillText(menu.title, x + Math.floor(width / 2), linesTop - Math.floor(rowH * 1.2));
+    this.ctx.font = `${Math.floor(unit * 0.7)}px monospace`;
+    menu.lines.forEach((line, i) => {
+      this.ctx.fillText(line, x + Math.floor(width / 2), linesTop + i * lineH + Math.floor(lineH / 2));
+    });
+    this.ctx.font = `bold ${Math.floor(unit * 0.8)}px monospace`;
+    menu.items.forEach((item, i) => {
+      const y = top + i * rowH;
+      if (i === menu.selected) {
+        this.ctx.fillStyle = 'rgba(245,240,215,0.2)';
+        this.ctx.fillRect(x, y, width, rowH - 2);
+      }
+      this.ctx.fillStyle = beige;
+      const midY = y + Math.floor(rowH / 2);
+      if (item.value) {
+        this.ctx.textAlign = 'left';
+        this.ctx.fillText(item.label, x + Math.floor(unit / 2), midY);
+        this.ctx.textAlign = 'right';
+        // arrows only on rows that can be stepped
+        const value = item.change ? `< ${item.value()} >` : item.value();
+        this.ctx.fillText(value, x + width - Math.floor(unit / 2), midY);
+      } else {
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(item.label, x + Math.floor(width / 2), midY);
+      }
+    });
+    this.ctx.restore();
+  }
+
+  // Hit-test a canvas position against the rows of drawMenu. Returns the row
+  // index and which half of it was hit, or null when outside all rows.
+  menuItemAt(menu: Menu, px: number, py: number): { index: number; side: -1 | 1 } | null {
+    const { rowH, width, x, top } = this.menuLayout(menu);
+    if (px < x || px > x + width || py < top) return null;
+    const index = Math.floor((py - top) / rowH);
+    if (index >= menu.items.length) return null;
+    return { index, side: px < x + width / 2 ? -1 : 1 };
+  }
+
   // Compute logical pixel size for the whole canvas based on board and images
   computeLayout(board: import('./board').Board) {
     const cellSize = this.computeCellSize(board);
@@ -393,7 +577,11 @@ export class Renderer {
     this.lastCellSize = cellSize;
   }
 
-  drawPiece(piece: import('./piece').Piece, board: import('./board').Board) {
+  // The hovering piece, tinted by what placing it would do (see
+  // Game.placementPreview): green where it can go down, with the loop it
+  // closes outlined and its payout; red on the tiles that block it; amber
+  // when it would exactly match and halve the score.
+  drawPiece(piece: import('./piece').Piece, board: import('./board').Board, preview: PlacementPreview | null = null) {
     const cellSize = this.lastCellSize || this.computeCellSize(board);
   // Compute offsets in the same way drawBoard does (centered)
   const boardW = board.width * cellSize;
@@ -419,8 +607,58 @@ export class Renderer {
             this.ctx.strokeStyle = 'white';
             this.ctx.strokeRect(px, py, cellSize, cellSize);
           }
+          if (preview && preview.kind !== 'blocked') {
+            this.ctx.fillStyle = preview.kind === 'valid' ? PREVIEW_VALID : PREVIEW_EXACT;
+            this.ctx.fillRect(px, py, cellSize, cellSize);
+          }
         }
       }
     }
+    if (preview) this.drawPreview(preview, piece, cellSize, offsetX, offsetY);
+  }
+
+  private drawPreview(preview: PlacementPreview, piece: import('./piece').Piece, cellSize: number, offsetX: number, offsetY: number) {
+    const ctx = this.ctx;
+    const cellRect = (c: { x: number; y: number }) => [offsetX + c.x * cellSize, offsetY + c.y * cellSize, cellSize, cellSize] as const;
+    let label = '';
+    let color = '';
+    switch (preview.kind) {
+      case 'blocked':
+        ctx.fillStyle = PREVIEW_BLOCKED;
+        for (const c of preview.collisions) ctx.fillRect(...cellRect(c));
+        return;
+      case 'exactMatch':
+        label = `÷2 ${preview.payout > 0 ? '+' : ''}${preview.payout}`;
+        color = '#f2c94c';
+        break;
+      case 'valid':
+        if (preview.loop.length === 0) return;
+        ctx.save();
+        ctx.strokeStyle = '#f5f0d7';
+        ctx.lineWidth = Math.max(2, Math.floor(cellSize / 12));
+        for (const c of preview.loop) {
+          const [x, y, w, h] = cellRect(c);
+          ctx.strokeRect(x + ctx.lineWidth / 2, y + ctx.lineWidth / 2, w - ctx.lineWidth, h - ctx.lineWidth);
+        }
+        ctx.restore();
+        label = `+${preview.payout}${preview.clearsBoard ? ' x2' : ''}`;
+        color = '#f5f0d7';
+        break;
+    }
+    // the label sits just above the piece
+    const b = shapeBounds(piece.shape);
+    if (!b) return;
+    ctx.save();
+    ctx.font = `bold ${Math.max(10, Math.floor(cellSize * 0.6))}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillStyle = color;
+    const x = offsetX + (piece.x + (b.minCol + b.maxCol + 1) / 2) * cellSize;
+    const y = offsetY + (piece.y + b.minRow) * cellSize - 2;
+    ctx.strokeText(label, x, y);
+    ctx.fillText(label, x, y);
+    ctx.restore();
   }
 }
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { createHeadlessGame } from './headless';
+import { parseReplayLog, ReplayPlayer } from './replay';
+import { RULE_PRESETS } from './rules';
+import { boardToRows, playRecordedGame } from './testFixtures';
+
+describe('ReplayPlayer', () => {
+  it('reproduces the recorded game exactly', () => {
+    for (const seed of [1, 2, 3]) {
+      const h = playRecordedGame(seed, 20000);
+      const log = h.game.getReplayLog()!;
+      expect(log.actions.some((a) => a.a === 'autoDrop')).toBe(true);
+      expect(log.actions.some((a) => a.a === 'pause')).toBe(true);
+      expect(log.actions.some((a) => a.a === 'hold')).toBe(true);
+
+      const player = new ReplayPlayer(parseReplayLog(JSON.stringify(log))!);
+      player.seek(player.duration);
+      // let a trailing removal animation finish on both sides
+      for (let i = 0; i < 200; i++) {
+        h.tick(16);
+        player.game.update(player.clock.now() + (i + 1) * 16);
+      }
+      expect(player.desynced).toBe(false);
+      expect(boardToRows(player.game.board)).toEqual(boardToRows(h.game.board));
+      expect(player.game.state.score).toBe(h.game.state.score);
+    }
+  });
+
+  it('reproduces Arena games, where the preview length steers the assist randomizer', () => {
+    const arena = RULE_PRESETS.find((p) => p.id === 'arena')!;
+    const options = { mode: arena.mode, difficulty: arena.difficulty, boardWidth: arena.boardWidth, boardHeight: arena.boardHeight, previewCount: arena.previewCount };
+    for (const seed of [1, 2]) {
+      const h = playRecordedGame(seed, 1000, options);
+      // a change of preview length mid-game is part of the log too
+      h.game.setPreviewCount(1);
+      for (let i = 0; i < 10; i++) {
+        h.tick(16);
+        h.game.placePiece();
+      }
+      const log = h.game.getReplayLog()!;
+      expect(log.preview).toBe(3);
+
+      const player = new ReplayPlayer(parseReplayLog(JSON.stringify(log))!);
+      player.seek(player.duration);
+      for (let i = 0; i < 200; i++) {
+        h.tick(16);
+        player.game.update(player.clock.now() + (i + 1) * 16);
+      }
+      expect(player.desynced).toBe(false);
+      expect(player.game.state.previewCount).toBe(1);
+      expect(boardToRows(player.game.board)).toEqual(boardToRows(h.game.board));
+    }
+  });
+
+  it('holds the log to the piece timer', () => {
+    const log = createHeadlessGame({ seed: 8 }).game.getReplayLog()!;
+    // a piece kept for ten minutes is dropped by the timer anyway
+    const hovering = new ReplayPlayer({ ...log, actions: [...log.actions, { t: 600000, a: 'place' }] });
+    hovering.seek(600000);
+    expect(hovering.desynced).toBe(true);
+    // and a drop long before the timer ran out is not one the timer made
+    const early = new ReplayPlayer({ ...log, actions: [...log.actions, { t: 100, a: 'autoDrop' }] });
+    early.seek(200);
+    expect(early.desynced).toBe(true);
+  });
+
+  it('records spawns, moves and placements with times relative to the start', () => {
+    const h = createHeadlessGame({ seed: 8 });
+    h.tick(100);
+    h.game.movePieceTo(0, 0);
+    h.tick(50);
+    h.game.placePiece();
+    const actions = h.game.getReplayLog()!.actions;
+    expect(actions[0]).toMatchObject({ t: 0, a: 'spawn' });
+    expect(actions[1]).toMatchObject({ t: 100, a: 'move' });
+    expect(actions[2]).toEqual({ t: 150, a: 'place' });
+    expect(actions[3]).toMatchObject({ t: 150, a: 'spawn' });
+  });
+
+  it('scrubs backwards by replaying from the start', () => {
+    const h = playRecordedGame(4, 3000);
+    const player = new ReplayPlayer(h.game.getReplayLog()!);
+    player.seek(20000);
+    const at20 = boardToRows(player.game.board);
+    const score20 = player.game.state.score;
+    player.seek(40000);
+    player.seek(20000);
+    expect(player.position).toBe(20000);
+    expect(boardToRows(player.game.board)).toEqual(at20);
+    expect(player.game.state.score).toBe(score20);
+  });
+
+  it('plays back faster at higher speeds', () => {
+    const h = playRecordedGame(5, 3000);
+    const player = new ReplayPlayer(h.game.getReplayLog()!);
+    player.speed = 4;
+    player.advance(1000);
+    expect(player.position).toBe(4000);
+  });
+
+  it('rejects files that are not replay logs', () => {
+    expect(parseReplayLog('not json')).toBeNull();
+    expect(parseReplayLog(JSON.stringify({ v: 1, seed: 1, actions: [{ t: 0, a: 'teleport' }] }))).toBeNull();
+    expect(parseReplayLog(JSON.stringify({ v: 1, seed: 1, actions: [{ t: 5, a: 'place' }, { t: 1, a: 'place' }] }))).toBeNull();
+  });
+
+  it('rejects actions with values the game never records', () => {
+    const log = (...actions: object[]) => parseReplayLog(JSON.stringify({ v: 2, seed: 1, width: 6, height: 10, actions }));
+    expect(log({ t: 0, a: 'spawn', s: 0, r: 0, x: 5, y: 9 }, { t: 1, a: 'move', dx: -1, dy: 1 }, { t: 2, a: 'rotate', d: -1 })).not.toBeNull();
+    expect(log({ t: 0, a: 'move', dx: 0.5, dy: 0 })).toBeNull();
+    expect(log({ t: 0, a: 'move', dx: '1', dy: 0 })).toBeNull();
+    expect(log({ t: 0, a: 'move', dx: 3, dy: 0 })).toBeNull();
+    expect(log({ t: 0, a: 'rotate', d: 2 })).toBeNull();
+    expect(log({ t: 0, a: 'preview', n: 4 })).toBeNull();
+    expect(log({ t: 0, a: 'spawn', s: 0, r: -1, x: 0, y: 0 })).toBeNull();
+    expect(log({ t: 0, a: 'spawn', s: 0, r: 0, x: 6, y: 0 })).toBeNull();
+    expect(log({ t: 1.5, a: 'place' })).toBeNull();
+    expect(parseReplayLog(JSON.stringify({ v: 2, seed: 1, width: 500, actions: [] }))).toBeNull();
+  });
+});
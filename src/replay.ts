@@ -0,0 +1,291 @@
+// replay.ts
+// Compact action log recorded by Game and a player that feeds a log back
+// through a headless Game so it can be rendered, sped up and scrubbed.
+import { Game, MAX_PREVIEW, MIN_PREVIEW } from './game';
+import { createHeadlessPlatform, ManualClock } from './headless';
+import { PIECE_SHAPES } from './piece';
+import { DEFAULT_MODE_ID } from './modes';
+import { DEFAULT_DIFFICULTY_ID } from './difficulty';
+import { BOARD_LIMITS, DEFAULT_RULES } from './rules';
+
+// One recorded input or engine decision. Keys are kept short because a log
+// holds one entry per key press for the whole game.
+export type ReplayEvent =
+  | { a: 'spawn'; s: number; r: number; x: number; y: number } // shape index, rotation, position
+  | { a: 'move'; dx: number; dy: number }
+  | { a: 'rotate'; d?: -1 } // clockwise, or counter-clockwise with d: -1 (v2)
+  | { a: 'place' }
+  | { a: 'hold' }
+  | { a: 'autoDrop' } // timer ran out
+  | { a: 'pause' }
+  | { a: 'resume' }
+  | { a: 'preview'; n: number }; // preview length changed mid-game
+
+// t: ms since game start
+export type ReplayAction = ReplayEvent & { t: number };
+
+// v1 logs come from before counter-clockwise turns and kicks (Game.legacyRotation)
+export type ReplayLog = {
+  v: 1 | 2;
+  seed: number;
+  mode?: string; // game mode id (classic for logs recorded before modes existed)
+  difficulty?: string; // difficulty preset id (normal when missing)
+  width?: number; // board size (10x20 when missing)
+  height?: number;
+  preview?: number; // preview length at the start (2 when missing)
+  date: string; // ISO timestamp of the game start
+  actions: ReplayAction[];
+  // filled in when the game ends
+  duration?: number; // ms played, pauses left out
+  score?: number;
+};
+
+const isInt = (v: unknown, min: number, max: number) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+const isStep = (v: unknown) => v === -1 || v === 0 || v === 1;
+
+// Every field of the action is one the engine can take (a spawn lies on the board)
+function isValidAction(act: Record<string, unknown>, width: number, height: number): boolean {
+  if (!isInt(act.t, 0, Number.MAX_SAFE_INTEGER)) return false;
+  switch (act.a) {
+    case 'spawn': {
+      const shapes = isInt(act.s, 0, PIECE_SHAPES.length - 1) ? PIECE_SHAPES[act.s as number] : null;
+      return !!shapes && isInt(act.r, 0, shapes.length - 1) && isInt(act.x, 0, width - 1) && isInt(act.y, 0, height - 1);
+    }
+    case 'move':
+      return isStep(act.dx) && isStep(act.dy);
+    case 'rotate':
+      return act.d === undefined || act.d === -1;
+    case 'preview':
+      return isInt(act.n, MIN_PREVIEW, MAX_PREVIEW);
+    case 'place':
+    case 'hold':
+    case 'autoDrop':
+    case 'pause':
+    case 'resume':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Parse and sanity-check a replay file. Returns null when it isn't a replay
+// log, or when any of its fields is something the game never records.
+export function parseReplayLog(text: string): ReplayLog | null {
+  try {
+    const log: unknown = JSON.parse(text);
+    if (!log || typeof log !== 'object') return null;
+    const l = log as Record<string, unknown>;
+    if ((l.v !== 1 && l.v !== 2) || typeof l.seed !== 'number' || !Array.isArray(l.actions)) return null;
+    for (const key of ['mode', 'difficulty'] as const) {
+      if (l[key] !== undefined && typeof l[key] !== 'string') return null;
+    }
+    for (const key of ['score', 'duration'] as const) {
+      if (l[key] !== undefined && !Number.isFinite(l[key])) return null;
+    }
+    if (l.width !== undefined && !isInt(l.width, BOARD_LIMITS.minWidth, BOARD_LIMITS.maxWidth)) return null;
+    if (l.height !== undefined && !isInt(l.height, BOARD_LIMITS.minHeight, BOARD_LIMITS.maxHeight)) return null;
+    if (l.preview !== undefined && !isInt(l.preview, MIN_PREVIEW, MAX_PREVIEW)) return null;
+    const width = (l.width as number | undefined) ?? DEFAULT_RULES.boardWidth;
+    const height = (l.height as number | undefined) ?? DEFAULT_RULES.boardHeight;
+    let lastT = 0;
+    for (const act of l.actions) {
+      if (!act || typeof act !== 'object' || !isValidAction(act, width, height) || act.t < lastT) return null;
+      lastT = act.t;
+    }
+    return log as ReplayLog;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function replayDuration(log: ReplayLog): number {
+  const last = log.actions.length > 0 ? log.actions[log.actions.length - 1].t : 0;
+  return Math.max(last, log.duration ?? 0);
+}
+
+// Simulation step used while playing back (roughly one animation frame)
+const STEP = 16;
+// Longest we wait for a removal animation to hand back a piece before giving up
+const MAX_WAIT = 60000;
+// How far the recorded auto-drops may be off the replayed piece timer: live
+// frames land anywhere within a frame of the deadline, or later in a busy tab
+const TIMER_SLACK = 1000;
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+// Plays a ReplayLog on its own headless Game with a manual clock. Time on that
+// clock is the replay position (ms since game start).
+export class ReplayPlayer {
+  readonly log: ReplayLog;
+  readonly duration: number;
+  speed: ReplaySpeed = 1;
+  playing = true;
+  // set when a recorded spawn doesn't match what the engine produced
+  desynced = false;
+  game!: Game;
+  clock!: ManualClock;
+  private nextAction = 0;
+  // when the replayed piece timer ran out with no auto-drop from the log yet
+  private overdueSince: number | null = null;
+
+  constructor(log: ReplayLog) {
+    this.log = log;
+    this.duration = replayDuration(log);
+    this.reset();
+  }
+
+  get position(): number {
+    return this.clock.now();
+  }
+
+  get finished(): boolean {
+    return this.position >= this.duration && this.nextAction >= this.log.actions.length;
+  }
+
+  // Advance playback by real elapsed milliseconds (scaled by speed)
+  advance(realMs: number) {
+    if (!this.playing) return;
+    this.runTo(Math.min(this.duration, this.position + realMs * this.speed));
+    if (this.finished) this.playing = false;
+  }
+
+  // Jump to a position (ms). Seeking backwards replays from the start.
+  seek(position: number) {
+    const target = Math.max(0, Math.min(this.duration, position));
+    if (target < this.position) this.reset();
+    this.runTo(target);
+  }
+
+  // Play to the end of the log and let a trailing removal animation finish,
+  // so the game shows its final score
+  finish() {
+    this.seek(this.duration);
+    const deadline = this.clock.now() + MAX_WAIT;
+    while (this.game.removing && this.clock.now() < deadline) {
+      this.clock.advance(STEP);
+      this.game.update(this.clock.now());
+    }
+    this.playing = false;
+  }
+
+  togglePlay() {
+    if (this.finished) {
+      this.reset();
+      this.playing = true;
+      return;
+    }
+    this.playing = !this.playing;
+  }
+
+  private reset() {
+    this.clock = new ManualClock();
+    // the replay game gets its own in-memory storage so the real save is never touched
+    this.game = new Game(createHeadlessPlatform({ clock: this.clock }));
+    this.game.replaying = true;
+    this.game.start({
+      seed: this.log.seed,
+      mode: this.log.mode ?? DEFAULT_MODE_ID,
+      difficulty: this.log.difficulty ?? DEFAULT_DIFFICULTY_ID,
+      boardWidth: this.log.width ?? DEFAULT_RULES.boardWidth,
+      boardHeight: this.log.height ?? DEFAULT_RULES.boardHeight,
+      previewCount: this.log.preview ?? DEFAULT_RULES.previewCount,
+    });
+    this.game.legacyRotation = this.log.v === 1;
+    this.nextAction = 0;
+    this.overdueSince = null;
+    this.desynced = false;
+  }
+
+  private runTo(target: number) {
+    const actions = this.log.actions;
+    while (this.nextAction < actions.length && actions[this.nextAction].t <= target) {
+      const act = actions[this.nextAction];
+      this.stepTo(act.t);
+      this.apply(act);
+      this.nextAction++;
+    }
+    this.stepTo(target);
+  }
+
+  private stepTo(t: number) {
+    while (this.clock.now() < t) {
+      this.clock.advance(Math.min(STEP, t - this.clock.now()));
+      this.game.update(this.clock.now());
+      this.enforceTimer();
+    }
+  }
+
+  // The replayed game runs the piece timer but leaves the auto-drops to the
+  // log. A piece the log keeps well past its time is dropped anyway, and the
+  // log no longer matches the game.
+  private enforceTimer() {
+    const game = this.game;
+    if (!game.currentPiece || !game.state.isRunning || (game.state.timerRemaining ?? 1) > 0) {
+      this.overdueSince = null;
+      return;
+    }
+    const now = this.clock.now();
+    this.overdueSince ??= now;
+    if (now - this.overdueSince > TIMER_SLACK) {
+      this.desynced = true;
+      this.overdueSince = null;
+      game.autoDrop(now);
+    }
+  }
+
+  // Removal animations can finish a few frames later than they did live;
+  // keep simulating until the engine has a piece for the next input.
+  private waitForPiece() {
+    const deadline = this.clock.now() + MAX_WAIT;
+    while (!this.game.currentPiece && this.game.state.isRunning && this.clock.now() < deadline) {
+      this.clock.advance(STEP);
+      this.game.update(this.clock.now());
+    }
+  }
+
+  private apply(act: ReplayAction) {
+    const game = this.game;
+    switch (act.a) {
+      case 'spawn': {
+        this.waitForPiece();
+        const p = game.currentPiece;
+        if (!p || PIECE_SHAPES.indexOf(p.shapes) !== act.s || p.rotation !== act.r || p.x !== act.x || p.y !== act.y) {
+          this.desynced = true;
+        }
+        break;
+      }
+      case 'move':
+        this.waitForPiece();
+        game.movePiece(act.dx, act.dy);
+        break;
+      case 'rotate':
+        this.waitForPiece();
+        game.rotatePiece(act.d ?? 1);
+        break;
+      case 'place':
+        this.waitForPiece();
+        game.placePiece();
+        break;
+      case 'hold':
+        this.waitForPiece();
+        game.holdPiece();
+        break;
+      case 'autoDrop':
+        this.waitForPiece();
+        // an auto-drop the timer didn't call for
+        if ((game.state.timerRemaining ?? 0) > TIMER_SLACK) this.desynced = true;
+        this.overdueSince = null;
+        game.autoDrop(this.clock.now());
+        break;
+      case 'pause':
+        game.pause();
+        break;
+      case 'resume':
+        game.resume();
+        break;
+      case 'preview':
+        game.setPreviewCount(act.n);
+        break;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+// rules.ts
+// Everything chosen before a game starts (board size, mode, difficulty,
+// preview length) and the named presets offered on the setup screen.
+import { DEFAULT_DIFFICULTY_ID, DIFFICULTIES } from './difficulty';
+import type { DifficultyId } from './difficulty';
+import { DEFAULT_MODE_ID, GAME_MODES } from './modes';
+
+export type GameRules = {
+  mode: string;
+  difficulty: DifficultyId;
+  boardWidth: number;
+  boardHeight: number;
+  previewCount: number;
+};
+
+export type RulePreset = GameRules & { id: string; name: string };
+
+export const BOARD_LIMITS = { minWidth: 6, maxWidth: 20, minHeight: 10, maxHeight: 30 };
+
+export const RULE_PRESETS: RulePreset[] = [
+  { id: 'classic', name: 'Classic', mode: 'classic', difficulty: 'normal', boardWidth: 10, boardHeight: 20, previewCount: 2 },
+  { id: 'pocket', name: 'Pocket', mode: 'bag', difficulty: 'easy', boardWidth: 6, boardHeight: 10, previewCount: 1 },
+  { id: 'blitz', name: 'Blitz', mode: 'classic', difficulty: 'insane', boardWidth: 8, boardHeight: 14, previewCount: 2 },
+  { id: 'marathon', name: 'Marathon', mode: 'relaxed', difficulty: 'easy', boardWidth: 14, boardHeight: 24, previewCount: 3 },
+  { id: 'arena', name: 'Arena', mode: 'assist', difficulty: 'hard', boardWidth: 20, boardHeight: 30, previewCount: 3 },
+];
+
+export const DEFAULT_RULES: GameRules = {
+  mode: DEFAULT_MODE_ID,
+  difficulty: DEFAULT_DIFFICULTY_ID,
+  boardWidth: 10,
+  boardHeight: 20,
+  previewCount: 2,
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(v)));
+
+// Fill in defaults and clamp everything into range (e.g. rules read from storage)
+export function normalizeRules(raw: unknown): GameRules {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const number = (v: unknown, min: number, max: number, fallback: number) =>
+    typeof v === 'number' && Number.isFinite(v) ? clamp(v, min, max) : fallback;
+  const mode = GAME_MODES.find((m) => m.id === r.mode);
+  const difficulty = DIFFICULTIES.find((d) => d.id === r.difficulty);
+  return {
+    mode: mode ? mode.id : DEFAULT_RULES.mode,
+    difficulty: difficulty ? difficulty.id : DEFAULT_RULES.difficulty,
+    boardWidth: number(r.boardWidth, BOARD_LIMITS.minWidth, BOARD_LIMITS.maxWidth, DEFAULT_RULES.boardWidth),
+    boardHeight: number(r.boardHeight, BOARD_LIMITS.minHeight, BOARD_LIMITS.maxHeight, DEFAULT_RULES.boardHeight),
+    previewCount: number(r.previewCount, 1, 3, DEFAULT_RULES.previewCount),
+  };
+}
+
+// The preset these rules match exactly, or null for a custom setup
+export function findPreset(rules: GameRules): RulePreset | null {
+  return (
+    RULE_PRESETS.find(
+      (p) =>
+        p.mode === rules.mode &&
+        p.difficulty === rules.difficulty &&
+        p.boardWidth === rules.boardWidth &&
+        p.boardHeight === rules.boardHeight &&
+        p.previewCount === rules.previewCount
+    ) ?? null
+  );
+}
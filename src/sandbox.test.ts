@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createHeadlessGame, createHeadlessPlatform, MemoryStorage } from './headless';
+import { createSandbox, decodePosition, encodePosition, positionSave } from './sandbox';
+import type { Position } from './sandbox';
+import { boardToRows, loadBoard, setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const SHORT_STRAIGHT = 1;
+
+const empty = (n: number) => Array.from({ length: n }, () => '..........');
+
+// Board and piece of a game, as the share link takes them
+function positionOf(game: ReturnType<typeof createHeadlessGame>['game']): Position {
+  const save = game.toSave();
+  return { ...save.board, piece: save.currentPiece };
+}
+
+describe('shared positions', () => {
+  it('packs a board and piece into a short fragment and back', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    loadBoard(h.game, [...empty(18), '┌─┐.......', '└─┘......│']);
+    setPiece(h.game, SHORT_STRAIGHT, 1, 4, 3);
+    const text = encodePosition(positionOf(h.game));
+    expect(text).toBe('p1.10x20.zzzzzzx253g154f6.1,1,4,3');
+    expect(decodePosition(`#${text}`)).toEqual(positionOf(h.game));
+  });
+
+  it('rejects fragments that are not positions', () => {
+    expect(decodePosition('')).toBeNull();
+    expect(decodePosition('#p1.10x20.zzzzzzzs.')).toBeNull();
+    expect(decodePosition('#p1.10x20.zzzzzzzq9.')).toBeNull();
+    expect(decodePosition('#p1.10x20.zzzzzzzr.1,1,x,3')).toBeNull();
+    expect(decodePosition('#p1.10x20.zzzzzzzr.')).toMatchObject({ width: 10, height: 20, piece: null });
+  });
+
+  it('opens a valid position as a game and refuses pieces off the board', () => {
+    const position = decodePosition('p1.6x10.zzg1.8,0,0,0')!;
+    const result = positionSave(createHeadlessPlatform(), position);
+    if (!result.ok) throw new Error(result.reason);
+    const game = createSandbox(createHeadlessPlatform(), result.save);
+    expect(boardToRows(game.board).at(-1)).toBe('.....└');
+    expect(game.state.currentPiece).toMatchObject({ x: 0, y: 0 });
+
+    const off = positionSave(createHeadlessPlatform(), { ...position, piece: { shapeIndex: HONEYNUT, rotation: 0, x: 5, y: 0 } });
+    expect(off).toEqual({ ok: false, reason: 'current piece is off the board' });
+  });
+});
+
+describe('sandbox', () => {
+  it('plays without writing to the storage it was opened from', () => {
+    const h = createHeadlessGame({ seed: 2 });
+    const storage = new MemoryStorage();
+    const sandbox = createSandbox(createHeadlessPlatform({ clock: h.clock, storage }), h.game.toSave());
+    setPiece(sandbox, HONEYNUT, 0, 0, 0);
+    sandbox.placePiece();
+    sandbox.pause();
+    sandbox.end();
+    expect(storage.get('double_save:auto')).toBeNull();
+    expect(storage.get('double_leaderboard')).toBeNull();
+  });
+});
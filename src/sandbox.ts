@@ -0,0 +1,106 @@
+// sandbox.ts
+// Games opened from an exported save file or a shared link. A sandbox runs on
+// its own Game with in-memory storage, so nothing played in it reaches the
+// autosave, the leaderboard or the stats. Shared links carry only the board
+// and the current piece, packed into the URL fragment:
+//
+//   #p1.<width>x<height>.<cells>.<shape>,<rotation>,<x>,<y>
+//
+// Cells go row by row: digits 1-6 are tiles, a letter is a run of empty
+// cells (a = 1 ... z = 26). The piece part is empty when there is none.
+import { CELL_EMPTY, CELL_SK } from './board';
+import { Game } from './game';
+import { MemoryStorage } from './headless';
+import type { PieceSpec } from './piece';
+import type { Platform } from './platform';
+import { migrateSave } from './saveFormat';
+import type { SaveData, SaveResult } from './saveFormat';
+
+const POSITION_PREFIX = 'p1';
+const MAX_RUN = 26;
+
+export type Position = {
+  width: number;
+  height: number;
+  // [y][x] like Board.grid
+  grid: number[][];
+  piece: PieceSpec | null;
+};
+
+export function encodePosition(position: Position): string {
+  let cells = '';
+  let run = 0;
+  const flush = () => {
+    for (; run > 0; run -= Math.min(run, MAX_RUN)) cells += String.fromCharCode(96 + Math.min(run, MAX_RUN));
+  };
+  for (const row of position.grid) {
+    for (const cell of row) {
+      if (cell === CELL_EMPTY) {
+        run++;
+      } else {
+        flush();
+        cells += cell;
+      }
+    }
+  }
+  flush();
+  const p = position.piece;
+  const piece = p ? [p.shapeIndex, p.rotation, p.x, p.y].join(',') : '';
+  return [POSITION_PREFIX, `${position.width}x${position.height}`, cells, piece].join('.');
+}
+
+// Read a position back (a leading '#' is fine). Only the format is checked
+// here; whether it is playable is up to positionSave.
+export function decodePosition(text: string): Position | null {
+  const parts = text.replace(/^#/, '').split('.');
+  if (parts.length !== 4 || parts[0] !== POSITION_PREFIX) return null;
+  const size = /^(\d{1,2})x(\d{1,2})$/.exec(parts[1]);
+  if (!size) return null;
+  const width = Number(size[1]);
+  const height = Number(size[2]);
+
+  const cells: number[] = [];
+  for (const ch of parts[2]) {
+    if (ch >= 'a' && ch <= 'z') {
+      for (let i = ch.charCodeAt(0) - 96; i > 0; i--) cells.push(CELL_EMPTY);
+    } else if (ch >= '1' && ch <= String(CELL_SK)) {
+      cells.push(Number(ch));
+    } else {
+      return null;
+    }
+    if (cells.length > width * height) return null;
+  }
+  if (cells.length !== width * height) return null;
+  const grid = Array.from({ length: height }, (_, y) => cells.slice(y * width, (y + 1) * width));
+
+  let piece: PieceSpec | null = null;
+  if (parts[3] !== '') {
+    const numbers = parts[3].split(',').map(Number);
+    if (numbers.length !== 4 || !numbers.every(Number.isInteger)) return null;
+    const [shapeIndex, rotation, x, y] = numbers;
+    piece = { shapeIndex, rotation, x, y };
+  }
+  return { width, height, grid, piece };
+}
+
+// A fresh game whose board and piece are replaced by the position, checked
+// like any other save
+export function positionSave(platform: Platform, position: Position): SaveResult {
+  const game = createSandbox(platform);
+  game.start({ boardWidth: position.width, boardHeight: position.height });
+  const save = game.toSave();
+  return migrateSave({
+    ...save,
+    // the log of the blank game would not lead to this board
+    replay: null,
+    board: { width: position.width, height: position.height, grid: position.grid },
+    currentPiece: position.piece,
+  });
+}
+
+// A game that keeps everything it saves in memory; opened with the save when given
+export function createSandbox(platform: Platform, save?: SaveData): Game {
+  const game = new Game({ ...platform, storage: new MemoryStorage() });
+  if (save) game.loadSave(save);
+  return game;
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './game';
+import { createHeadlessGame, createHeadlessPlatform, MemoryStorage } from './headless';
+import { migrateSave, parseSave, SAVE_VERSION } from './saveFormat';
+import { AUTO_SLOT, SaveSlots } from './saveSlots';
+import { boardToRows, setPiece } from './testFixtures';
+
+const SMALL_CORNER = 0;
+
+// A save as the game wrote it before versioned saves (version 1): no piece
+// generator, randomizer, mode or preview yet
+function v1Save() {
+  const grid = Array.from({ length: 20 }, () => Array(10).fill(0));
+  grid[19][0] = 4;
+  return {
+    version: 1,
+    board: { width: 10, height: 20, grid },
+    state: {
+      score: 30,
+      highScores: [120, 30],
+      isRunning: true,
+      isGameOver: false,
+      paused: false,
+      timerRemaining: 4000,
+      timerDuration: 9000,
+      popups: [{ text: '+1', start: 100, duration: 900, kind: 'tile', boardX: 0, boardY: 0 }],
+    },
+    currentPiece: { shapeIndex: 0, rotation: 0, x: 4, y: 4 },
+    loopRemoval: { active: false, cells: [], index: 0, interval: 150, pointsPerTile: 1, exactMatch: false },
+  } as any;
+}
+
+// Break one part of a valid save
+function damaged(change: (save: any) => void) {
+  const save = v1Save();
+  change(save);
+  return migrateSave(save);
+}
+
+describe('save format', () => {
+  it('migrates version 1 saves', () => {
+    const result = migrateSave(v1Save());
+    if (!result.ok) throw new Error(result.reason);
+    expect(result.save.version).toBe(SAVE_VERSION);
+    expect(result.save.savedAt).toBeNull();
+    expect(result.save.state).not.toHaveProperty('popups');
+    expect(result.save.state.score).toBe(30);
+    expect(result.save.loopRemoval).toMatchObject({ exactMatch: false, anchor: null, payout: 0 });
+    // the game goes on with a fresh piece generator
+    expect(result.save.rng.state).toBe(result.save.rng.seed);
+    expect(result.save.state.nextPieces).toEqual([]);
+  });
+
+  it('rejects boards that do not match their size or hold unknown cells', () => {
+    expect(damaged((s) => s.board.grid.pop())).toEqual({ ok: false, reason: 'board rows do not match its height' });
+    expect(damaged((s) => (s.board.grid[3] = [0, 0]))).toEqual({ ok: false, reason: 'board columns do not match its width' });
+    expect(damaged((s) => (s.board.grid[0][0] = 9))).toEqual({ ok: false, reason: 'unknown board cell' });
+    expect(damaged((s) => (s.board.width = 500))).toEqual({ ok: false, reason: 'board width out of range' });
+  });
+
+  it('rejects pieces and removals off the board', () => {
+    expect(damaged((s) => (s.currentPiece.x = 10))).toEqual({ ok: false, reason: 'current piece is off the board' });
+    expect(damaged((s) => (s.loopRemoval.cells = [{ x: 0, y: 20 }]))).toEqual({ ok: false, reason: 'removal cells are off the board' });
+    expect(damaged((s) => (s.state.nextPieces = [{ shapeIndex: 99, rotation: 0, x: 0, y: 0 }]))).toEqual({
+      ok: false,
+      reason: 'bad preview pieces',
+    });
+  });
+
+  it('rejects preview and held pieces in rotations their shape does not have', () => {
+    expect(damaged((s) => (s.state.nextPieces = [{ shapeIndex: 2, rotation: -1, x: 0, y: 0 }]))).toEqual({
+      ok: false,
+      reason: 'bad preview pieces',
+    });
+    expect(damaged((s) => (s.state.heldPiece = { shapeIndex: 0, rotation: 4 }))).toEqual({ ok: false, reason: 'bad held piece' });
+    expect(damaged((s) => (s.currentPiece.rotation = 7))).toEqual({ ok: false, reason: 'current piece is off the board' });
+  });
+
+  it('rejects unreadable, unversioned and newer saves', () => {
+    expect(parseSave('{"version":')).toEqual({ ok: false, reason: 'save is not readable' });
+    expect(migrateSave({ board: {} })).toEqual({ ok: false, reason: 'save has no version' });
+    expect(migrateSave({ version: SAVE_VERSION + 1 })).toEqual({ ok: false, reason: `save is from a newer version (${SAVE_VERSION + 1})` });
+    expect(migrateSave({ version: 1 })).toEqual({ ok: false, reason: 'board missing' });
+  });
+
+  it('accepts what the game writes', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    setPiece(h.game, SMALL_CORNER, 0, 2, 2);
+    h.game.placePiece();
+    expect(migrateSave(JSON.parse(JSON.stringify(h.game.toSave())))).toMatchObject({ ok: true });
+  });
+});
+
+describe('save slots', () => {
+  it('moves the old single save into the autosave slot', () => {
+    const storage = new MemoryStorage();
+    storage.set('double_save_v1', JSON.stringify(v1Save()));
+    const game = new Game(createHeadlessPlatform({ storage }));
+    expect(game.restored).toBe(true);
+    expect(game.state.score).toBe(30);
+    expect(game.state.popups).toEqual([]);
+    expect(storage.get('double_save_v1')).toBeNull();
+  });
+
+  it('saves to and loads from player slots', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    setPiece(h.game, SMALL_CORNER, 0, 2, 2);
+    h.game.placePiece();
+    h.game.state.score = 17;
+    h.game.saveToSlot('slot 1');
+    const rows = boardToRows(h.game.board);
+    h.game.start({ seed: 4 });
+    expect(h.game.loadSlot('slot 2')).toBe(false);
+    expect(h.game.loadSlot('slot 1')).toBe(true);
+    expect(h.game.state.score).toBe(17);
+    expect(boardToRows(h.game.board)).toEqual(rows);
+    // the loaded game is now the autosaved one
+    const auto = h.game.saves.read(AUTO_SLOT);
+    expect(auto?.ok && auto.save.state.score).toBe(17);
+  });
+
+  it('keeps a damaged autosave and offers the one before it', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    h.game.state.score = 9;
+    h.game.saveState();
+    const broken = { ...h.game.toSave(), board: { width: 10, height: 20, grid: [] } };
+    h.game.saves.write(AUTO_SLOT, broken);
+
+    const game = new Game(createHeadlessPlatform({ clock: h.clock, storage: h.storage }));
+    expect(game.restored).toBe(false);
+    expect(game.loadProblem).toBe('board rows do not match its height');
+    // nothing was thrown away
+    expect(new SaveSlots(h.storage).readRaw(AUTO_SLOT)).toBe(JSON.stringify(broken));
+    expect(game.restoreBackup()).toBe(true);
+    expect(game.loadProblem).toBeNull();
+    expect(game.state.score).toBe(9);
+  });
+
+  it('keeps the last valid save as the backup when a damaged one is overwritten', () => {
+    const h = createHeadlessGame({ seed: 3 });
+    h.game.state.score = 9;
+    h.game.saveState();
+    const broken = { ...h.game.toSave(), board: { width: 10, height: 20, grid: [] } };
+    h.game.saves.write(AUTO_SLOT, broken);
+    h.game.state.score = 12;
+    h.game.saveState();
+
+    const backup = h.game.saves.readBackup(AUTO_SLOT);
+    expect(backup?.ok && backup.save.state.score).toBe(9);
+  });
+});
@@ -0,0 +1,214 @@
+// saveFormat.ts
+// Versioned format of saved games. A save is migrated step by step from the
+// version it was written with up to SAVE_VERSION and then checked field by
+// field, so a corrupted or hand-edited save is rejected with a reason before
+// any of it reaches the board.
+import { BOARD_LIMITS, DEFAULT_RULES } from './rules';
+import { CELL_EMPTY, CELL_SK } from './board';
+import { DEFAULT_DIFFICULTY_ID } from './difficulty';
+import { DEFAULT_MODE_ID } from './modes';
+import { isValidPieceSpec, PIECE_SHAPES } from './piece';
+import type { PieceSpec } from './piece';
+import { randomSeed } from './random';
+import { parseReplayLog } from './replay';
+import type { ReplayLog } from './replay';
+
+export const SAVE_VERSION = 2;
+
+type Cell = { x: number; y: number };
+
+export type SaveData = {
+  version: typeof SAVE_VERSION;
+  // ISO timestamp of the write (null for saves migrated from v1)
+  savedAt: string | null;
+  // piece generator: seed plus current position in its sequence
+  rng: { seed: number; state: number };
+  randomizer: { kind: string; state: unknown };
+  // action log so far and how far into the game we are
+  replay: { log: ReplayLog; elapsed: number } | null;
+  board: { width: number; height: number; grid: number[][] };
+  state: {
+    score: number;
+    modeId: string;
+    difficultyId: string;
+    loopsClosed: number;
+    isRunning: boolean;
+    isGameOver: boolean;
+    paused: boolean;
+    timerRemaining: number;
+    nextPieces: PieceSpec[];
+    previewCount: number;
+    heldPiece: { shapeIndex: number; rotation: number } | null;
+    holdUsed: boolean;
+  };
+  currentPiece: PieceSpec | null;
+  // removal animation in progress
+  loopRemoval: {
+    active: boolean;
+    cells: Cell[];
+    index: number;
+    interval: number;
+    pointsPerTile: number;
+    exactMatch: boolean;
+    anchor: Cell | null;
+    payout: number;
+  };
+};
+
+export type SaveResult = { ok: true; save: SaveData } | { ok: false; reason: string };
+
+// A save (or part of one) read from JSON, before its fields are checked
+type Fields = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Fields => !!v && typeof v === 'object';
+
+// Upgrades a save from version n to n + 1. Each step may assume its input
+// was a valid save of version n.
+const MIGRATIONS: Record<number, (save: Fields) => Fields> = {
+  // v1 was written field by field with most fields optional. v2 spells out
+  // every field, drops the HUD popups (their timestamps belong to the session
+  // that wrote them) and the timer length (it follows from the level). v1
+  // saves kept no piece generator, so the game goes on with a fresh one.
+  1: (v1) => {
+    const s = isObject(v1.state) ? v1.state : {};
+    const lr = isObject(v1.loopRemoval) ? v1.loopRemoval : {};
+    const seed = randomSeed();
+    return {
+      version: 2,
+      savedAt: null,
+      rng: v1.rng ?? { seed, state: seed },
+      randomizer: v1.randomizer ?? { kind: 'uniform', state: null },
+      replay: v1.replay ?? null,
+      board: v1.board,
+      state: {
+        score: s.score || 0,
+        modeId: s.modeId ?? DEFAULT_MODE_ID,
+        difficultyId: s.difficultyId ?? DEFAULT_DIFFICULTY_ID,
+        loopsClosed: s.loopsClosed ?? 0,
+        isRunning: !!s.isRunning,
+        isGameOver: !!s.isGameOver,
+        paused: !!s.paused,
+        timerRemaining: s.timerRemaining ?? s.timerDuration ?? 0,
+        nextPieces: s.nextPieces ?? [],
+        previewCount: s.previewCount ?? DEFAULT_RULES.previewCount,
+        heldPiece: s.heldPiece ?? null,
+        holdUsed: !!s.holdUsed,
+      },
+      currentPiece: v1.currentPiece ?? null,
+      loopRemoval: {
+        active: !!lr.active,
+        cells: lr.cells ?? [],
+        index: lr.index ?? 0,
+        interval: lr.interval ?? 150,
+        pointsPerTile: lr.pointsPerTile ?? 1,
+        exactMatch: !!lr.exactMatch,
+        anchor: lr.anchor ?? null,
+        payout: lr.payout ?? 0,
+      },
+    };
+  },
+};
+
+class InvalidSave extends Error {}
+
+function check(condition: unknown, reason: string): asserts condition {
+  if (!condition) throw new InvalidSave(reason);
+}
+
+const isInt = (v: unknown, min = -Infinity, max = Infinity): v is number =>
+  Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isCell = (c: unknown, width: number, height: number): c is Cell =>
+  isObject(c) && isInt(c.x, 0, width - 1) && isInt(c.y, 0, height - 1);
+
+// All occupied tiles of the piece lie on the board
+function pieceFits(spec: PieceSpec, width: number, height: number): boolean {
+  const shape = PIECE_SHAPES[spec.shapeIndex][spec.rotation];
+  for (let x = 0; x < shape.length; x++) {
+    for (let y = 0; y < shape[x].length; y++) {
+      if (shape[x][y] !== CELL_EMPTY && !isCell({ x: spec.x + x, y: spec.y + y }, width, height)) return false;
+    }
+  }
+  return true;
+}
+
+function validate(save: unknown): SaveData {
+  check(isObject(save), 'not a save');
+  check(save.savedAt === null || typeof save.savedAt === 'string', 'bad save date');
+  check(isObject(save.rng) && isNumber(save.rng.seed) && isNumber(save.rng.state), 'bad piece generator');
+  check(isObject(save.randomizer) && typeof save.randomizer.kind === 'string', 'bad piece randomizer');
+
+  const board = save.board;
+  check(isObject(board), 'board missing');
+  const { width, height, grid } = board;
+  check(isInt(width, BOARD_LIMITS.minWidth, BOARD_LIMITS.maxWidth), 'board width out of range');
+  check(isInt(height, BOARD_LIMITS.minHeight, BOARD_LIMITS.maxHeight), 'board height out of range');
+  check(Array.isArray(grid) && grid.length === height, 'board rows do not match its height');
+  for (const row of grid as unknown[]) {
+    check(Array.isArray(row) && row.length === width, 'board columns do not match its width');
+    check(row.every((cell: unknown) => isInt(cell, CELL_EMPTY, CELL_SK)), 'unknown board cell');
+  }
+
+  const s = save.state;
+  check(isObject(s), 'game state missing');
+  check(isInt(s.score, 0), 'bad score');
+  check(typeof s.modeId === 'string' && typeof s.difficultyId === 'string', 'bad mode or difficulty');
+  check(isInt(s.loopsClosed, 0), 'bad loop count');
+  for (const flag of ['isRunning', 'isGameOver', 'paused', 'holdUsed']) {
+    check(typeof s[flag] === 'boolean', `bad ${flag} flag`);
+  }
+  check(isNumber(s.timerRemaining) && s.timerRemaining >= 0, 'bad timer');
+  check(isInt(s.previewCount, 1, 3), 'bad preview length');
+  check(Array.isArray(s.nextPieces) && s.nextPieces.every(isValidPieceSpec), 'bad preview pieces');
+  const held = s.heldPiece;
+  check(held === null || (isObject(held) && isValidPieceSpec({ ...held, x: 0, y: 0 })), 'bad held piece');
+
+  const piece = save.currentPiece;
+  check(piece === null || (isValidPieceSpec(piece) && pieceFits(piece, width, height)), 'current piece is off the board');
+
+  const lr = save.loopRemoval;
+  check(isObject(lr), 'removal state missing');
+  check(typeof lr.active === 'boolean' && typeof lr.exactMatch === 'boolean', 'bad removal flags');
+  check(Array.isArray(lr.cells) && lr.cells.every((c: unknown) => isCell(c, width, height)), 'removal cells are off the board');
+  check(isInt(lr.index, 0, lr.cells.length), 'bad removal position');
+  check(isNumber(lr.interval) && lr.interval > 0, 'bad removal speed');
+  check(isNumber(lr.pointsPerTile) && isNumber(lr.payout), 'bad removal points');
+  // the anchor only places popups (a piece's origin may lie just off the board)
+  check(lr.anchor === null || (isObject(lr.anchor) && isInt(lr.anchor.x) && isInt(lr.anchor.y)), 'bad removal anchor');
+
+  if (save.replay !== null) {
+    check(isObject(save.replay) && isNumber(save.replay.elapsed), 'bad replay position');
+    check(parseReplayLog(JSON.stringify(save.replay.log)), 'bad replay log');
+  }
+  return save as SaveData;
+}
+
+// Bring a parsed save of any known version up to date and validate it
+export function migrateSave(raw: unknown): SaveResult {
+  try {
+    check(isObject(raw), 'not a save');
+    let save = raw;
+    check(isInt(save.version, 1), 'save has no version');
+    check(save.version <= SAVE_VERSION, `save is from a newer version (${save.version})`);
+    for (let version = save.version; version < SAVE_VERSION; version++) {
+      const migrate = MIGRATIONS[version];
+      check(migrate, `no migration from version ${version}`);
+      save = migrate(save);
+    }
+    return { ok: true, save: validate(save) };
+  } catch (e) {
+    if (e instanceof InvalidSave) return { ok: false, reason: e.message };
+    // a migration tripped over a missing field
+    return { ok: false, reason: 'save is incomplete' };
+  }
+}
+
+export function parseSave(text: string): SaveResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, reason: 'save is not readable' };
+  }
+  return migrateSave(raw);
+}
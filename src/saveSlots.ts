@@ -0,0 +1,79 @@
+// saveSlots.ts
+// Named save slots in storage. The autosave slot holds the game in progress;
+// the player slots are saved and loaded from the menus. Each write keeps the
+// save it replaces as the slot's backup if that save is valid, which is the
+// way back when the latest save turns out to be damaged.
+import type { KeyValueStorage } from './platform';
+import { parseSave } from './saveFormat';
+import type { SaveData, SaveResult } from './saveFormat';
+
+export const AUTO_SLOT = 'auto';
+// Slots offered on the save / load screen
+export const PLAYER_SLOTS = ['slot 1', 'slot 2', 'slot 3'];
+
+// Single save from before slots existed; moved into the autosave slot
+const LEGACY_KEY = 'double_save_v1';
+
+const slotKey = (name: string) => `double_save:${name}`;
+const backupKey = (name: string) => `double_save:${name}:backup`;
+
+export class SaveSlots {
+  private storage: KeyValueStorage;
+
+  constructor(storage: KeyValueStorage) {
+    this.storage = storage;
+    this.migrateLegacy();
+  }
+
+  // The slot's save; null when the slot is empty
+  read(name: string): SaveResult | null {
+    const raw = this.readRaw(name);
+    return raw === null ? null : parseSave(raw);
+  }
+
+  // The save as stored, e.g. to hand a damaged one to the player
+  readRaw(name: string): string | null {
+    return this.storage.get(slotKey(name));
+  }
+
+  // The last valid save a write replaced; null when there is none
+  readBackup(name: string): SaveResult | null {
+    const raw = this.storage.get(backupKey(name));
+    return raw === null ? null : parseSave(raw);
+  }
+
+  write(name: string, save: SaveData) {
+    try {
+      const previous = this.readRaw(name);
+      // a damaged save would push out the good backup it may need
+      if (previous !== null && parseSave(previous).ok) this.storage.set(backupKey(name), previous);
+      this.storage.set(slotKey(name), JSON.stringify(save));
+    } catch (e) {
+      // ignore storage errors (quota, private mode)
+    }
+  }
+
+  // Put the backup back in place of the slot's current save
+  restoreBackup(name: string): boolean {
+    const raw = this.storage.get(backupKey(name));
+    if (raw === null || !parseSave(raw).ok) return false;
+    this.storage.set(slotKey(name), raw);
+    return true;
+  }
+
+  remove(name: string) {
+    this.storage.remove(slotKey(name));
+    this.storage.remove(backupKey(name));
+  }
+
+  private migrateLegacy() {
+    try {
+      const legacy = this.storage.get(LEGACY_KEY);
+      if (legacy === null) return;
+      if (this.readRaw(AUTO_SLOT) === null) this.storage.set(slotKey(AUTO_SLOT), legacy);
+      this.storage.remove(LEGACY_KEY);
+    } catch (e) {
+      // ignore
+    }
+  }
+}
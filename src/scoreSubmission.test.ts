@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createSubmission, parseSubmission, verifySubmission } from './scoreSubmission';
+import type { ScoreSubmission } from './scoreSubmission';
+import { playRecordedGame } from './testFixtures';
+
+// A finished game on a small, fast board so it ends quickly
+function finishedGame(seed: number): ScoreSubmission {
+  const h = playRecordedGame(seed, 100000, { boardWidth: 6, boardHeight: 10, difficulty: 'insane' });
+  expect(h.game.state.isGameOver).toBe(true);
+  // round-trip through JSON like a real upload
+  return parseSubmission(JSON.parse(JSON.stringify(createSubmission(h.game.leaderboardEntry('ann'), h.game.getReplayLog()!))))!;
+}
+
+describe('score verification', () => {
+  it('accepts a genuine game', () => {
+    for (const seed of [3, 83]) {
+      const sub = finishedGame(seed);
+      expect(sub.score).toBeGreaterThan(0);
+      expect(verifySubmission(sub)).toEqual({ ok: true });
+    }
+  });
+
+  it('rejects an inflated score', () => {
+    const sub = finishedGame(3);
+    const inflated = { ...sub, score: sub.score + 100, log: { ...sub.log, score: sub.score + 100 } };
+    expect(verifySubmission(inflated)).toEqual({ ok: false, reason: 'replayed score does not match' });
+    expect(verifySubmission({ ...sub, score: sub.score + 100 }).ok).toBe(false);
+  });
+
+  it('rejects a log with fabricated actions', () => {
+    const sub = finishedGame(4);
+    const actions = sub.log.actions.filter((a) => a.a !== 'autoDrop');
+    expect(verifySubmission({ ...sub, log: { ...sub.log, actions } }).ok).toBe(false);
+  });
+
+  it('rejects a submission that does not match its log', () => {
+    const sub = finishedGame(5);
+    expect(verifySubmission({ ...sub, seed: sub.seed + 1 }).ok).toBe(false);
+    expect(verifySubmission({ ...sub, mode: 'bag' }).ok).toBe(false);
+    expect(verifySubmission({ ...sub, difficulty: 'easy' })).toEqual({ ok: false, reason: 'difficulty does not match the log' });
+    expect(verifySubmission({ ...sub, width: 10 }).ok).toBe(false);
+  });
+
+  it('parses only well-formed submissions', () => {
+    expect(parseSubmission(null)).toBeNull();
+    expect(parseSubmission({ name: 'x', score: 1 })).toBeNull();
+    const sub = finishedGame(6);
+    expect(parseSubmission({ ...sub, score: 'many' })).toBeNull();
+    expect(parseSubmission({ ...sub, log: { ...sub.log, actions: [{ t: 0, a: 'teleport' }] } })).toBeNull();
+    expect(parseSubmission({ ...sub, name: 'Ann!' })!.name).toBe('ann');
+  });
+
+  it('refuses games too long to verify and settings the game does not have', () => {
+    const sub = finishedGame(6);
+    expect(parseSubmission({ ...sub, duration: 1e9, log: { ...sub.log, duration: 1e9 } })).toBeNull();
+    const late = [...sub.log.actions, { t: sub.duration + 1, a: 'pause' }];
+    expect(parseSubmission({ ...sub, log: { ...sub.log, actions: late } })).toBeNull();
+    expect(parseSubmission({ ...sub, mode: 'chaos' })).toBeNull();
+    expect(parseSubmission({ ...sub, difficulty: 'nightmare' })).toBeNull();
+    expect(parseSubmission({ ...sub, width: 500 })).toBeNull();
+    expect(parseSubmission({ ...sub, height: 2.5 })).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+// scoreSubmission.ts
+// Score submissions sent to the leaderboard server and the check the server
+// runs on them: the action log is replayed through a headless game and the
+// submission is only accepted if it reproduces the claimed result.
+import type { LeaderboardEntry } from './leaderboard';
+import { cleanName } from './leaderboard';
+import { DEFAULT_DIFFICULTY_ID, DIFFICULTIES } from './difficulty';
+import { DEFAULT_MODE_ID, GAME_MODES } from './modes';
+import { parseReplayLog, ReplayPlayer } from './replay';
+import type { ReplayLog } from './replay';
+import { BOARD_LIMITS, DEFAULT_RULES } from './rules';
+
+export type ScoreSubmission = LeaderboardEntry & {
+  // the recorded game the score comes from
+  log: ReplayLog;
+};
+
+export type VerificationResult = { ok: true } | { ok: false; reason: string };
+
+// Longest action log the server will replay (a very long game is a few 10k actions)
+export const MAX_LOG_ACTIONS = 200000;
+// Longest game (ms) the server will replay; verification simulates every frame
+// of it, so this bounds how long one submission can keep the server busy
+export const MAX_GAME_DURATION = 4 * 60 * 60 * 1000;
+
+export function createSubmission(entry: LeaderboardEntry, log: ReplayLog): ScoreSubmission {
+  return { ...entry, log };
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isInt = (v: unknown, min: number, max: number): v is number => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+// Shape check for submissions arriving over the network
+export function parseSubmission(body: unknown): ScoreSubmission | null {
+  if (!body || typeof body !== 'object') return null;
+  const { name, score, date, mode, difficulty, width, height, seed, duration, log: rawLog } = body as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof date !== 'string') return null;
+  if (!GAME_MODES.some((m) => m.id === mode) || !DIFFICULTIES.some((d) => d.id === difficulty)) return null;
+  if (!isNumber(score) || !isNumber(seed)) return null;
+  if (!isInt(width, BOARD_LIMITS.minWidth, BOARD_LIMITS.maxWidth) || !isInt(height, BOARD_LIMITS.minHeight, BOARD_LIMITS.maxHeight)) return null;
+  if (!isNumber(duration) || duration < 0 || duration > MAX_GAME_DURATION) return null;
+  if (!rawLog || typeof rawLog !== 'object') return null;
+  const actions = (rawLog as Record<string, unknown>).actions;
+  if (!Array.isArray(actions) || actions.length > MAX_LOG_ACTIONS) return null;
+  const log = parseReplayLog(JSON.stringify(rawLog));
+  // actions are in time order, so the last one is the latest
+  if (!log || (log.actions.length > 0 && log.actions[log.actions.length - 1].t > duration)) return null;
+  return {
+    name: cleanName(name),
+    score,
+    date,
+    mode: mode as string,
+    difficulty: difficulty as string,
+    width,
+    height,
+    seed,
+    duration,
+    log,
+  };
+}
+
+// Replay the submission's log and compare the outcome with what it claims
+export function verifySubmission(sub: ScoreSubmission): VerificationResult {
+  const log = sub.log;
+  if (log.seed !== sub.seed) return { ok: false, reason: 'seed does not match the log' };
+  if ((log.mode ?? DEFAULT_MODE_ID) !== sub.mode) return { ok: false, reason: 'mode does not match the log' };
+  if ((log.difficulty ?? DEFAULT_DIFFICULTY_ID) !== sub.difficulty) return { ok: false, reason: 'difficulty does not match the log' };
+  if ((log.width ?? DEFAULT_RULES.boardWidth) !== sub.width || (log.height ?? DEFAULT_RULES.boardHeight) !== sub.height) {
+    return { ok: false, reason: 'board size does not match the log' };
+  }
+  if (log.score !== sub.score || log.duration !== sub.duration) {
+    return { ok: false, reason: 'log is incomplete or does not match the score' };
+  }
+  try {
+    const player = new ReplayPlayer(log);
+    player.finish();
+    if (player.desynced) return { ok: false, reason: 'replay diverged from the log' };
+    if (!player.game.state.isGameOver) return { ok: false, reason: 'replayed game did not end' };
+    if (player.game.state.score !== sub.score) return { ok: false, reason: 'replayed score does not match' };
+  } catch (e) {
+    return { ok: false, reason: 'log could not be replayed' };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStorage } from './headless';
+import type { ScoreSubmission } from './scoreSubmission';
+import { MAX_QUEUED_SCORES, ScoreSync } from './scoreSync';
+import type { FetchLike } from './scoreSync';
+
+function submission(score: number): ScoreSubmission {
+  return {
+    name: 'ann',
+    score,
+    date: '2026-01-01T00:00:00.000Z',
+    mode: 'classic',
+    difficulty: 'normal',
+    width: 10,
+    height: 20,
+    seed: score,
+    duration: 1000,
+    log: { v: 1, seed: 1, date: '2026-01-01T00:00:00.000Z', actions: [] },
+  };
+}
+
+// fetch stand-in answering with the given status codes in turn ('offline' throws)
+function fakeServer(responses: (number | 'offline')[]) {
+  const sent: { url: string; score: number }[] = [];
+  const fetchFn: FetchLike = async (url, init) => {
+    const next = responses.shift() ?? 'offline';
+    if (next === 'offline') throw new TypeError('Failed to fetch');
+    sent.push({ url, score: JSON.parse(init.body).score });
+    return { status: next };
+  };
+  return { sent, fetchFn };
+}
+
+describe('ScoreSync', () => {
+  it('sends a submission right away when the server is up', async () => {
+    const server = fakeServer([201]);
+    const sync = new ScoreSync(new MemoryStorage(), 'http://localhost:8787/', server.fetchFn);
+    expect(await sync.submit(submission(10))).toBe(1);
+    expect(server.sent).toEqual([{ url: 'http://localhost:8787/api/scores', score: 10 }]);
+    expect(sync.pending()).toEqual([]);
+  });
+
+  it('keeps submissions while offline and sends them in order later', async () => {
+    const storage = new MemoryStorage();
+    const offline = fakeServer(['offline', 'offline']);
+    const sync = new ScoreSync(storage, 'http://x', offline.fetchFn);
+    await sync.submit(submission(1));
+    await sync.submit(submission(2));
+    expect(sync.pending().map((s) => s.score)).toEqual([1, 2]);
+
+    // a new page load picks the queue up from storage
+    const online = fakeServer([201, 201]);
+    const later = new ScoreSync(storage, 'http://x', online.fetchFn);
+    expect(await later.sync()).toBe(2);
+    expect(online.sent.map((s) => s.score)).toEqual([1, 2]);
+    expect(later.pending()).toEqual([]);
+  });
+
+  it('drops rejected submissions and retries after server errors', async () => {
+    const server = fakeServer([422, 503]);
+    const sync = new ScoreSync(new MemoryStorage(), 'http://x', server.fetchFn);
+    await sync.submit(submission(1));
+    await sync.submit(submission(2));
+    expect(sync.pending().map((s) => s.score)).toEqual([2]);
+  });
+
+  it('keeps scores another tab sent or queued while a send was under way', async () => {
+    const storage = new MemoryStorage();
+    const offline = new ScoreSync(storage, 'http://x', fakeServer([]).fetchFn);
+    await offline.submit(submission(1));
+    await offline.submit(submission(2));
+    // while this tab sends score 1, another one sends it too and goes offline
+    const other = new ScoreSync(storage, 'http://x', fakeServer([201]).fetchFn);
+    const sent: number[] = [];
+    const sync = new ScoreSync(storage, 'http://x', async (_url, init) => {
+      if (sent.length === 0) await other.sync();
+      sent.push(JSON.parse(init.body).score);
+      return { status: 201 };
+    });
+    expect(await sync.sync()).toBe(2);
+    expect(sent).toEqual([1, 2]);
+    expect(sync.pending()).toEqual([]);
+  });
+
+  it('reports a queue that storage could not keep', async () => {
+    const storage = new MemoryStorage();
+    // full storage: the write is dropped
+    storage.set = () => {};
+    const sync = new ScoreSync(storage, 'http://x', fakeServer([]).fetchFn);
+    const failures: number[] = [];
+    sync.onStoreFailed = (queued) => failures.push(queued);
+    await sync.submit(submission(1));
+    expect(failures).toEqual([1]);
+  });
+
+  it('caps the queue, dropping the oldest', async () => {
+    const sync = new ScoreSync(new MemoryStorage(), 'http://x', fakeServer([]).fetchFn);
+    for (let i = 0; i < MAX_QUEUED_SCORES + 3; i++) await sync.submit(submission(i));
+    const queued = sync.pending();
+    expect(queued).toHaveLength(MAX_QUEUED_SCORES);
+    expect(queued[0].score).toBe(3);
+  });
+});
@@ -0,0 +1,99 @@
+// scoreSync.ts
+// Offline-first upload of leaderboard scores to the optional leaderboard
+// server (see server/). Submissions wait in storage until the server can be
+// reached, so scores made offline are sent on a later visit.
+import type { KeyValueStorage } from './platform';
+import type { ScoreSubmission } from './scoreSubmission';
+
+// Minimal fetch signature so tests (and Node) can pass their own
+export type FetchLike = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => Promise<{ status: number }>;
+
+const QUEUE_KEY = 'double_score_queue';
+// Oldest submissions are dropped beyond this many
+export const MAX_QUEUED_SCORES = 20;
+
+// Same game as one queued before (the server tells games apart the same way)
+const sameGame = (a: ScoreSubmission, b: ScoreSubmission) => a.seed === b.seed && a.date === b.date && a.name === b.name;
+
+export class ScoreSync {
+  private storage: KeyValueStorage;
+  private baseUrl: string;
+  private fetchFn: FetchLike;
+  private syncing: Promise<number> | null = null;
+  // called when the queue could not be stored, so its scores would be lost
+  // with the page (the app tells the player)
+  onStoreFailed: ((queued: number) => void) | null = null;
+
+  constructor(storage: KeyValueStorage, baseUrl: string, fetchFn: FetchLike) {
+    this.storage = storage;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.fetchFn = fetchFn;
+  }
+
+  // Submissions not accepted (or rejected) by the server yet, oldest first
+  pending(): ScoreSubmission[] {
+    try {
+      const queue = JSON.parse(this.storage.get(QUEUE_KEY) || '[]');
+      return Array.isArray(queue) ? queue : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  // Queue a score and try to send it right away
+  submit(sub: ScoreSubmission): Promise<number> {
+    this.writeQueue(this.pending().concat(sub).slice(-MAX_QUEUED_SCORES));
+    return this.sync();
+  }
+
+  // Send queued submissions in order. Stops at the first network error or
+  // server error and keeps the rest for the next attempt. Submissions the
+  // server rejects (4xx) are dropped since resending can't fix them.
+  // Resolves to the number of submissions the server accepted.
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.flush().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async flush(): Promise<number> {
+    let accepted = 0;
+    for (;;) {
+      const next = this.pending()[0];
+      if (!next) break;
+      let status: number;
+      try {
+        const res = await this.fetchFn(`${this.baseUrl}/api/scores`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(next),
+        });
+        status = res.status;
+      } catch (e) {
+        // offline or server not running
+        break;
+      }
+      if (status >= 500) break;
+      if (status < 300) accepted++;
+      // sent or rejected: either way it leaves the queue. Another tab may
+      // have changed the queue meanwhile, so it is looked up, not assumed first.
+      this.writeQueue(this.pending().filter((s) => !sameGame(s, next)));
+    }
+    return accepted;
+  }
+
+  private writeQueue(queue: ScoreSubmission[]) {
+    const text = JSON.stringify(queue);
+    try {
+      this.storage.set(QUEUE_KEY, text);
+    } catch (e) {
+      // ignore; checked below
+    }
+    // full storage keeps the write in memory only (see storage.ts), where the
+    // stored queue still reads back as it was
+    if (queue.length > 0 && this.storage.get(QUEUE_KEY) !== text) this.onStoreFailed?.(queue.length);
+  }
+}
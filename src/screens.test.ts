@@ -0,0 +1,362 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ACHIEVEMENTS } from './achievements';
+import type { LeaderboardEntry } from './leaderboard';
+import { DEFAULT_RULES } from './rules';
+import { Screens } from './screens';
+import type { ScreenHost } from './screens';
+import { DEFAULT_SETTINGS } from './settings';
+import { emptyStats } from './stats';
+import type { GameRecord } from './stats';
+
+function createHost(overrides: Partial<ScreenHost> = {}): ScreenHost {
+  return {
+    getRules: () => DEFAULT_RULES,
+    setRules: vi.fn(),
+    getSettings: () => DEFAULT_SETTINGS,
+    setSettings: vi.fn(),
+    startGame: vi.fn(),
+    resumeGame: vi.fn(),
+    canResume: () => false,
+    hasReplay: () => true,
+    watchReplay: vi.fn(),
+    exportReplay: vi.fn(),
+    loadReplay: vi.fn(async () => 'not a replay'),
+    summary: () => ({ score: 120, best: 300, level: 2, loopsClosed: 4, duration: 65000 }),
+    leaderboard: (mode) => (mode === 'classic' ? [entry('alice', 300), entry('bob', 120)] : []),
+    currentMode: () => 'classic',
+    canRecordHighScore: () => false,
+    recordHighScore: vi.fn(() => 2),
+    lastPlayerName: () => 'alice',
+    stats: () => ({ ...emptyStats(), gamesPlayed: 2, totalScore: 301, history: [record(200), record(101)] }),
+    trophies: () =>
+      ACHIEVEMENTS.map((achievement, i) => ({ achievement, unlockedAt: i === 0 ? '2026-03-14T10:00:00.000Z' : null })),
+    saveSlots: () => [
+      { name: 'slot 1', save: null, damaged: false },
+      { name: 'slot 2', save: null, damaged: true },
+    ],
+    saveToSlot: vi.fn(),
+    loadSlot: vi.fn(() => false),
+    loadProblem: () => 'board width out of range',
+    restoreBackup: vi.fn(() => false),
+    exportDamagedSave: vi.fn(),
+    takeOver: vi.fn(),
+    exportGame: vi.fn(),
+    shareLink: vi.fn(),
+    importGame: vi.fn(async () => 'bad score'),
+    ...overrides,
+  };
+}
+
+function entry(name: string, score: number): LeaderboardEntry {
+  return { name, score, date: '2026-03-14T10:00:00.000Z', mode: 'classic', difficulty: 'normal', width: 10, height: 20, seed: 1, duration: 60000 };
+}
+
+function record(score: number): GameRecord {
+  const counts = { loopsClosed: 1, longestLoop: 4, bestPayout: 10, exactMatches: 0, boardClears: 0, autoDrops: 1 };
+  return { date: '2026-03-14T10:00:00.000Z', mode: 'classic', width: 10, height: 20, score, duration: 65000, ...counts };
+}
+
+// select the menu row with the given label
+function choose(screens: Screens, label: string) {
+  const i = screens.menu!.items.findIndex((item) => item.label === label);
+  expect(i).toBeGreaterThanOrEqual(0);
+  screens.menu!.tap(i, 1);
+}
+
+describe('screen flow', () => {
+  it('starts a game from the title screen', () => {
+    const host = createHost();
+    const screens = new Screens(host);
+    expect(screens.current).toBe('title');
+    choose(screens, 'play');
+    expect(host.startGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+    expect(screens.menu).toBeNull();
+  });
+
+  it('offers continue on the title screen when a game is paused', () => {
+    const host = createHost({ canResume: () => true });
+    const screens = new Screens(host);
+    choose(screens, 'continue');
+    expect(host.resumeGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+  });
+
+  it('asks before play drops a paused game', () => {
+    const host = createHost({ canResume: () => true });
+    const screens = new Screens(host);
+    choose(screens, 'play');
+    expect(host.startGame).not.toHaveBeenCalled();
+    expect(screens.menu!.lines).toEqual(['play again to drop the paused game']);
+    choose(screens, 'play');
+    expect(host.startGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+  });
+
+  it('saves the chosen rules from mode select and starts the game', () => {
+    const host = createHost();
+    const screens = new Screens(host);
+    choose(screens, 'new game');
+    expect(screens.current).toBe('modeSelect');
+    screens.handleKey('arrowup'); // preview row
+    screens.handleKey('arrowleft');
+    screens.handleKey('arrowdown'); // start row
+    screens.handleKey('enter');
+    expect(host.setRules).toHaveBeenCalledWith({ ...DEFAULT_RULES, previewCount: DEFAULT_RULES.previewCount - 1 });
+    expect(host.startGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+  });
+
+  it('returns from a sub-screen to the screen it was opened from', () => {
+    const screens = new Screens(createHost(), 'pause');
+    choose(screens, 'settings');
+    expect(screens.current).toBe('settings');
+    screens.handleKey('escape');
+    expect(screens.current).toBe('pause');
+
+    const fromTitle = new Screens(createHost());
+    choose(fromTitle, 'high scores');
+    expect(fromTitle.current).toBe('highScores');
+    fromTitle.handleKey('escape');
+    expect(fromTitle.current).toBe('title');
+  });
+
+  it('resumes the game when leaving the pause menu', () => {
+    const host = createHost();
+    const screens = new Screens(host, 'pause');
+    screens.handleKey('escape');
+    expect(host.resumeGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+  });
+
+  it('rejects transitions that are not in the table', () => {
+    const screens = new Screens(createHost(), 'playing');
+    expect(screens.show('settings')).toBe(false);
+    expect(screens.show('title')).toBe(false);
+    expect(screens.show('summary')).toBe(true);
+    expect(screens.current).toBe('summary');
+  });
+
+  it('summarises the finished game and restarts from the summary', () => {
+    const host = createHost();
+    const screens = new Screens(host, 'playing');
+    screens.show('summary');
+    expect(screens.menu!.lines).toEqual(['score 120', 'best 300', 'level 2  loops 4', 'time 1:05']);
+    choose(screens, 'play again');
+    expect(host.startGame).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('playing');
+  });
+
+  it('toggles and saves settings', () => {
+    const host = createHost();
+    const screens = new Screens(host);
+    choose(screens, 'settings');
+    choose(screens, 'vibration');
+    expect(host.setSettings).toHaveBeenCalledWith({ ...DEFAULT_SETTINGS, haptics: false });
+    choose(screens, 'volume');
+    expect(host.setSettings).toHaveBeenLastCalledWith({ ...DEFAULT_SETTINGS, haptics: false, volume: DEFAULT_SETTINGS.volume + 1 });
+  });
+
+  it('steps numeric settings within range', () => {
+    const custom = { ...DEFAULT_SETTINGS, longPressMs: 600, keys: { ...DEFAULT_SETTINGS.keys, hold: ['q'] } };
+    const host = createHost({ getSettings: () => custom });
+    const screens = new Screens(host);
+    choose(screens, 'settings');
+    choose(screens, 'long press');
+    expect(host.setSettings).toHaveBeenLastCalledWith(custom);
+    expect(screens.menu!.items.find((item) => item.label === 'controls')!.value!()).toBe('custom');
+  });
+
+  it('hides replay rows when there is nothing to replay', () => {
+    const screens = new Screens(createHost({ hasReplay: () => false }), 'pause');
+    expect(screens.menu!.items.map((i) => i.label)).not.toContain('watch replay');
+  });
+});
+
+describe('controls', () => {
+  function controlsScreen(settings = DEFAULT_SETTINGS) {
+    const host = createHost({ getSettings: () => settings });
+    const screens = new Screens(host);
+    choose(screens, 'settings');
+    choose(screens, 'controls');
+    return { host, screens, value: (label: string) => screens.menu!.items.find((item) => item.label === label)!.value!() };
+  }
+
+  it('rebinds an action to the next key pressed', () => {
+    const { host, screens, value } = controlsScreen();
+    expect(screens.current).toBe('controls');
+    expect(value('hold')).toBe('c h');
+    choose(screens, 'hold');
+    expect(screens.menu!.lines[0]).toBe('press a key for hold');
+    // the key is bound, not used to move through the menu
+    screens.handleKey('arrowdown');
+    expect(value('hold')).toBe('down');
+    expect(value('move down')).toBe('s');
+    expect(host.setSettings).toHaveBeenLastCalledWith({ ...DEFAULT_SETTINGS, keys: { ...DEFAULT_SETTINGS.keys, hold: ['arrowdown'], moveDown: ['s'] } });
+    screens.handleKey('escape');
+    expect(screens.current).toBe('settings');
+  });
+
+  it('binds gamepad buttons and cancels with escape', () => {
+    const { host, screens, value } = controlsScreen();
+    expect(screens.handleButton(0)).toBe(false);
+    screens.handleKey('arrowright');
+    expect(value('device')).toBe('gamepad');
+    choose(screens, 'place');
+    screens.handleKey('escape');
+    expect(host.setSettings).not.toHaveBeenCalled();
+    expect(screens.current).toBe('controls');
+    choose(screens, 'place');
+    expect(screens.handleButton(3)).toBe(true);
+    expect(value('place')).toBe('y');
+    expect(host.setSettings).toHaveBeenLastCalledWith({ ...DEFAULT_SETTINGS, pad: { ...DEFAULT_SETTINGS.pad, place: [3] } });
+  });
+
+  it('steps gestures through the actions and resets a device', () => {
+    const { host, screens, value } = controlsScreen();
+    screens.handleKey('arrowleft');
+    expect(value('device')).toBe('touch');
+    choose(screens, 'long press');
+    expect(value('long press')).toBe('pause');
+    screens.handleKey('arrowright');
+    expect(value('long press')).toBe('none');
+    expect(host.setSettings).toHaveBeenLastCalledWith({ ...DEFAULT_SETTINGS, gestures: { ...DEFAULT_SETTINGS.gestures, longPress: null } });
+    choose(screens, 'reset');
+    expect(value('long press')).toBe('place');
+    expect(host.setSettings).toHaveBeenLastCalledWith(DEFAULT_SETTINGS);
+  });
+});
+
+describe('high scores', () => {
+  it('browses the leaderboard per mode', () => {
+    const screens = new Screens(createHost());
+    choose(screens, 'high scores');
+    expect(screens.menu!.lines).toEqual(['1. alice     300 10x20 03/14', '2. bob       120 10x20 03/14']);
+    screens.handleKey('arrowright');
+    expect(screens.menu!.items[0].value!()).toBe('Fair Bag');
+    expect(screens.menu!.lines).toEqual(['no scores yet']);
+  });
+
+  it('asks for a name after a qualifying game and records it', () => {
+    const host = createHost({ canRecordHighScore: () => true });
+    const screens = new Screens(host, 'playing');
+    screens.finishGame();
+    expect(screens.current).toBe('nameEntry');
+    expect(screens.menu!.items[0].value!()).toBe('alice_');
+    for (let i = 0; i < 5; i++) screens.handleKey('backspace');
+    for (const key of 'sam w') screens.handleKey(key);
+    screens.handleKey('enter');
+    expect(host.recordHighScore).toHaveBeenCalledWith('sam w');
+    expect(screens.current).toBe('summary');
+    expect(screens.menu!.lines[0]).toBe('new high score #3');
+  });
+
+  it('skips name entry without recording', () => {
+    const host = createHost({ canRecordHighScore: () => true });
+    const screens = new Screens(host, 'playing');
+    screens.finishGame();
+    screens.handleKey('escape');
+    expect(host.recordHighScore).not.toHaveBeenCalled();
+    expect(screens.current).toBe('summary');
+    expect(screens.menu!.lines[0]).toBe('score 120');
+  });
+
+  it('goes straight to the summary when the score does not qualify', () => {
+    const screens = new Screens(createHost(), 'playing');
+    screens.finishGame();
+    expect(screens.current).toBe('summary');
+  });
+});
+
+describe('stats screen', () => {
+  it('shows the lifetime overview, then pages through the history', () => {
+    const screens = new Screens(createHost());
+    choose(screens, 'stats');
+    expect(screens.menu!.lines).toContain('average 151');
+    screens.handleKey('arrowright');
+    expect(screens.menu!.items[0].value!()).toBe('games 1/1');
+    expect(screens.menu!.lines).toEqual(['03/14 classic  10x20   200 1:05', '03/14 classic  10x20   101 1:05']);
+    screens.handleKey('arrowright');
+    expect(screens.menu!.items[0].value!()).toBe('overview');
+  });
+});
+
+describe('trophies screen', () => {
+  it('lists all badges and shows one in detail', () => {
+    const screens = new Screens(createHost());
+    choose(screens, 'trophies');
+    expect(screens.menu!.title).toBe(`trophies 1/${ACHIEVEMENTS.length}`);
+    expect(screens.menu!.lines[0]).toBe(`[x] ${ACHIEVEMENTS[0].name}`);
+    expect(screens.menu!.lines[1]).toBe(`[ ] ${ACHIEVEMENTS[1].name}`);
+    expect(screens.menu!.lines.slice(-2)).toEqual([ACHIEVEMENTS[0].description, 'unlocked 03/14']);
+    screens.handleKey('arrowright');
+    expect(screens.menu!.items[0].value!()).toBe(ACHIEVEMENTS[1].name);
+    expect(screens.menu!.lines.slice(-2)).toEqual([ACHIEVEMENTS[1].description, 'locked']);
+    screens.handleKey('escape');
+    expect(screens.current).toBe('title');
+  });
+});
+
+describe('saves screens', () => {
+  it('saves from the pause menu and loads from the title screen', () => {
+    const host = createHost({ loadSlot: vi.fn((name: string) => name === 'slot 1') });
+    const screens = new Screens(host, 'pause');
+    choose(screens, 'save game');
+    choose(screens, 'slot 1');
+    expect(host.saveToSlot).toHaveBeenCalledWith('slot 1');
+    expect(screens.menu!.lines).toEqual(['saved to slot 1']);
+    screens.handleKey('escape');
+    choose(screens, 'quit to title');
+    choose(screens, 'load game');
+    expect(screens.menu!.items.slice(0, 2).map((item) => item.value!())).toEqual(['empty', 'damaged']);
+    choose(screens, 'slot 2');
+    expect(screens.menu!.lines).toEqual(['that save is damaged']);
+    choose(screens, 'slot 1');
+    expect(screens.current).toBe('pause');
+  });
+
+  it('exports from the pause menu and explains a file that will not open', async () => {
+    const host = createHost();
+    const screens = new Screens(host, 'pause');
+    choose(screens, 'save game');
+    choose(screens, 'export file');
+    expect(host.exportGame).toHaveBeenCalledOnce();
+    choose(screens, 'share link');
+    expect(screens.menu!.lines).toEqual(['link to this board copied']);
+    screens.handleKey('escape');
+    choose(screens, 'quit to title');
+    choose(screens, 'load game');
+    choose(screens, 'import file');
+    await vi.waitFor(() => expect(screens.menu!.lines).toEqual([`can't open that file`, '(bad score)']));
+  });
+
+  it('says why a replay file cannot be played', async () => {
+    const screens = new Screens(createHost());
+    choose(screens, 'load replay');
+    await vi.waitFor(() => expect(screens.menu!.lines).toEqual([`can't play that replay`, '(not a replay)']));
+  });
+
+  it('explains a damaged autosave and falls back when there is no backup', () => {
+    const host = createHost();
+    const screens = new Screens(host, 'recovery');
+    expect(screens.menu!.lines).toEqual(['the saved game could not be loaded', '(board width out of range)']);
+    choose(screens, 'restore backup');
+    expect(screens.menu!.lines[0]).toBe('no usable backup');
+    choose(screens, 'download save');
+    expect(host.exportDamagedSave).toHaveBeenCalledOnce();
+    choose(screens, 'new game');
+    expect(screens.current).toBe('playing');
+  });
+});
+
+describe('game open elsewhere', () => {
+  it('leaves any screen and takes the game back over', () => {
+    const host = createHost({ loadProblem: () => null, canResume: () => true });
+    const screens = new Screens(host, 'playing');
+    screens.openElsewhere();
+    expect(screens.menu!.lines).toEqual(['this game is open in another tab']);
+    choose(screens, 'take over');
+    expect(host.takeOver).toHaveBeenCalledOnce();
+    expect(screens.current).toBe('pause');
+  });
+});
@@ -0,0 +1,750 @@
+// screens.ts
+// Screen flow of the app (title, mode select, settings, high scores, stats,
+// trophies, save slots, in-game, pause menu, high-score name entry, post-game
+// summary, replay, damaged-save recovery, game open in another tab, sandbox,
+// control bindings) as a small state machine. Menu
+// screens build a Menu for the renderer; everything they do to the game goes
+// through the ScreenHost so this module stays free of DOM and canvas code.
+import type { Achievement } from './achievements';
+import { cleanName, MAX_NAME_LENGTH } from './leaderboard';
+import type { LeaderboardEntry } from './leaderboard';
+import { Menu } from './menu';
+import type { MenuItem } from './menu';
+import { GAME_MODES, getMode } from './modes';
+import type { GameRules } from './rules';
+import type { SaveData } from './saveFormat';
+import {
+  buttonName,
+  DEFAULT_GESTURES,
+  DEFAULT_KEYS,
+  DEFAULT_PAD,
+  INPUT_ACTIONS,
+  keyName,
+  MOUSE_GESTURES,
+  rebind,
+  sameBindings,
+  TOUCH_GESTURES,
+} from './bindings';
+import type { Gesture, PadAction } from './bindings';
+import { LONG_PRESS_RANGE, MAX_VOLUME, REMOVAL_INTERVAL_RANGE } from './settings';
+import type { Settings } from './settings';
+import { averageScore } from './stats';
+import type { GameRecord, LifetimeStats } from './stats';
+import { createSetupMenu } from './setupScreen';
+
+export type ScreenId =
+  | 'title'
+  | 'modeSelect'
+  | 'settings'
+  | 'highScores'
+  | 'stats'
+  | 'trophies'
+  | 'saves'
+  | 'playing'
+  | 'pause'
+  | 'nameEntry'
+  | 'summary'
+  | 'replay'
+  | 'recovery'
+  | 'elsewhere'
+  | 'sandbox'
+  | 'controls';
+
+// Screens reachable from each screen. Going back from a sub-screen is always
+// allowed and returns to the screen it was opened from.
+export const SCREEN_TRANSITIONS: Record<ScreenId, ScreenId[]> = {
+  title: ['playing', 'modeSelect', 'settings', 'highScores', 'stats', 'trophies', 'saves', 'replay'],
+  modeSelect: ['playing'],
+  settings: ['controls'],
+  highScores: [],
+  stats: [],
+  trophies: [],
+  // a loaded game opens paused
+  saves: ['pause'],
+  playing: ['pause', 'nameEntry', 'summary'],
+  pause: ['playing', 'modeSelect', 'settings', 'saves', 'title', 'replay'],
+  nameEntry: ['summary'],
+  summary: ['playing', 'modeSelect', 'highScores', 'stats', 'trophies', 'title', 'replay'],
+  replay: [],
+  recovery: ['playing', 'pause', 'saves', 'title'],
+  // entered from any screen through openElsewhere()
+  elsewhere: ['pause', 'title', 'recovery'],
+  // entered through openSandbox(); the host decides where leaving goes
+  sandbox: ['pause', 'title'],
+  // always goes back to settings
+  controls: [],
+};
+
+// Sub-screens that remember where they were opened from
+const SUB_SCREENS: ScreenId[] = ['modeSelect', 'settings', 'highScores', 'stats', 'trophies', 'saves', 'replay'];
+
+// Settings switched on and off on the settings screen
+type ToggleSetting = 'haptics' | 'autoPause' | 'sound' | 'music' | 'reducedMotion';
+// ... and stepped through a range
+type NumberSetting = 'volume' | 'longPressMs' | 'removalInterval';
+
+// Input devices whose bindings the controls screen shows, one at a time
+const CONTROL_DEVICES = ['keyboard', 'gamepad', 'mouse', 'touch'] as const;
+type ControlDevice = (typeof CONTROL_DEVICES)[number];
+
+export type GameSummary = {
+  score: number;
+  best: number;
+  level: number;
+  loopsClosed: number;
+  // ms, when known
+  duration?: number;
+};
+
+// What the screens need from the app
+export interface ScreenHost {
+  getRules(): GameRules;
+  setRules(rules: GameRules): void;
+  getSettings(): Settings;
+  setSettings(settings: Settings): void;
+  // start a new game with the current rules
+  startGame(): void;
+  resumeGame(): void;
+  // a paused game is waiting to be continued
+  canResume(): boolean;
+  hasReplay(): boolean;
+  // start a replay of the last game; the host shows the replay screen once it runs
+  watchReplay(): void;
+  exportReplay(): void;
+  // pick a replay file and play it; resolves with the reason it can't be
+  // played (null once playing or when the player cancels)
+  loadReplay(): Promise<string | null>;
+  summary(): GameSummary;
+  // leaderboard of one mode, best first, and the mode of the current game
+  leaderboard(mode: string): LeaderboardEntry[];
+  currentMode(): string;
+  // the finished game qualifies for the leaderboard and isn't on it yet
+  canRecordHighScore(): boolean;
+  // returns the 0-based rank, -1 if not recorded
+  recordHighScore(name: string): number;
+  // name prefilled in the name entry
+  lastPlayerName(): string;
+  // native text prompt for devices without a keyboard (null when cancelled)
+  promptName?(current: string): string | null;
+  stats(): LifetimeStats;
+  // every achievement with its unlock date (null while locked)
+  trophies(): { achievement: Achievement; unlockedAt: string | null }[];
+  // player save slots (save is null for empty or damaged slots)
+  saveSlots(): { name: string; save: SaveData | null; damaged: boolean }[];
+  saveToSlot(name: string): void;
+  // load a slot; the game comes back paused
+  loadSlot(name: string): boolean;
+  // why the autosave could not be loaded, null when it was fine
+  loadProblem(): string | null;
+  // go back to the autosave before the damaged one; the game comes back paused
+  restoreBackup(): boolean;
+  // download the damaged save as it is
+  exportDamagedSave(): void;
+  // continue here the game another tab was playing
+  takeOver(): void;
+  // download the game as a file / copy a link to its board and piece
+  exportGame(): void;
+  shareLink(): void;
+  // pick an exported game and open it as a sandbox; resolves with the reason
+  // it can't be opened (null once opened or when the player cancels)
+  importGame(): Promise<string | null>;
+}
+
+// m:ss, or h:mm:ss from an hour on
+export function formatDuration(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const secs = String(total % 60).padStart(2, '0');
+  if (total < 3600) return `${Math.floor(total / 60)}:${secs}`;
+  return `${Math.floor(total / 3600)}:${String(Math.floor(total / 60) % 60).padStart(2, '0')}:${secs}`;
+}
+
+// One leaderboard row, e.g. "1. alice   1234 10x20 03/14"
+export function formatEntry(entry: LeaderboardEntry, rank: number): string {
+  const date = entry.date ? ` ${entry.date.slice(5, 7)}/${entry.date.slice(8, 10)}` : '';
+  return `${rank + 1}. ${entry.name.slice(0, 7).padEnd(7)} ${String(entry.score).padStart(5)} ${entry.width}x${entry.height}${date}`;
+}
+
+// One history row, e.g. "03/14 classic 10x20   120 1:05"
+export function formatRecord(record: GameRecord): string {
+  const date = `${record.date.slice(5, 7)}/${record.date.slice(8, 10)}`;
+  return `${date} ${record.mode.padEnd(8)} ${record.width}x${record.height} ${String(record.score).padStart(5)} ${formatDuration(record.duration)}`;
+}
+
+function statsOverview(s: LifetimeStats): string[] {
+  return [
+    `games ${s.gamesPlayed}`,
+    `total score ${s.totalScore}`,
+    `average ${averageScore(s)}`,
+    `loops ${s.loopsClosed}  longest ${s.longestLoop}`,
+    `best payout ${s.bestPayout}`,
+    `exact matches ${s.exactMatches}`,
+    `board clears ${s.boardClears}`,
+    `auto-drops ${s.autoDrops}  -${s.autoDropPoints}`,
+    `time played ${formatDuration(s.timePlayed)}`,
+  ];
+}
+
+// History rows per page of the stats screen
+const HISTORY_PAGE = 8;
+
+// Slot row value, e.g. "120 10x20 03/14"
+export function formatSlot(slot: { save: SaveData | null; damaged: boolean }): string {
+  if (slot.damaged) return 'damaged';
+  const save = slot.save;
+  if (!save) return 'empty';
+  const date = save.savedAt ? ` ${save.savedAt.slice(5, 7)}/${save.savedAt.slice(8, 10)}` : '';
+  return `${save.state.score} ${save.board.width}x${save.board.height}${date}`;
+}
+
+// Characters accepted in the name entry besides letters and digits
+const NAME_CHARS = /^[a-z0-9 _-]$/;
+
+export class Screens {
+  current: ScreenId;
+  // menu of the current screen (null while playing or watching a replay)
+  menu: Menu | null = null;
+  private host: ScreenHost;
+  private returnTo: ScreenId = 'title';
+  // name being typed on the name entry screen
+  private name = '';
+  // leaderboard rank of the game just finished (-1 when it wasn't recorded)
+  private lastRank = -1;
+  // controls screen: the device shown, and the row waiting for a key or button
+  private controlDevice: ControlDevice = 'keyboard';
+  private capture: { device: ControlDevice; bind: (input: string | number) => void; done: () => void } | null = null;
+
+  constructor(host: ScreenHost, initial: ScreenId = 'title') {
+    this.host = host;
+    this.current = initial;
+    this.menu = this.buildMenu(initial);
+  }
+
+  canShow(id: ScreenId): boolean {
+    return SCREEN_TRANSITIONS[this.current].includes(id);
+  }
+
+  // Switch to a screen if it is reachable from the current one
+  show(id: ScreenId): boolean {
+    if (!this.canShow(id)) return false;
+    if (SUB_SCREENS.includes(id)) this.returnTo = this.current;
+    this.enter(id);
+    return true;
+  }
+
+  // Leave a sub-screen (or the pause menu) for the screen it was opened from
+  back() {
+    if (SUB_SCREENS.includes(this.current)) this.enter(this.returnTo);
+    else if (this.current === 'controls') this.enter('settings');
+    else if (this.current === 'pause') this.resume();
+  }
+
+  // A game just ended: ask for a name if the score made the leaderboard,
+  // otherwise go straight to the summary
+  finishGame() {
+    this.lastRank = -1;
+    if (this.host.canRecordHighScore()) this.show('nameEntry');
+    else this.show('summary');
+  }
+
+  // Another tab took the game over: leave whatever screen this is
+  openElsewhere() {
+    this.enter('elsewhere');
+  }
+
+  // A game from a file or a shared link is opened on its own (see sandbox.ts)
+  openSandbox() {
+    this.enter('sandbox');
+  }
+
+  // Menu screens take keys first. Returns true if the key was used.
+  handleKey(key: string): boolean {
+    if (this.capture) {
+      // Escape gives up; any other key is bound when a key is wanted
+      if (key === 'escape') this.capture.done();
+      else if (this.capture.device === 'keyboard') this.capture.bind(key);
+      return true;
+    }
+    if (this.current === 'nameEntry') return this.handleNameKey(key);
+    return this.menu ? this.menu.handleKey(key) : false;
+  }
+
+  // Gamepad buttons reach the screens only to be bound on the controls
+  // screen. Returns true if the button was used.
+  handleButton(button: number): boolean {
+    if (!this.capture) return false;
+    if (this.capture.device === 'gamepad') this.capture.bind(button);
+    return true;
+  }
+
+  // Typing edits the name directly; Enter confirms the selected row, Escape skips
+  private handleNameKey(key: string): boolean {
+    if (NAME_CHARS.test(key)) {
+      if (this.name.length < MAX_NAME_LENGTH) this.name += key;
+      return true;
+    }
+    switch (key) {
+      case 'backspace':
+        this.name = this.name.slice(0, -1);
+        return true;
+      case 'escape':
+        this.skipName();
+        return true;
+      case 'enter':
+        if (this.menu!.items[this.menu!.selected].label === 'skip') this.skipName();
+        else this.saveName();
+        return true;
+      case 'arrowup':
+      case 'arrowdown':
+        return this.menu!.handleKey(key);
+    }
+    return false;
+  }
+
+  private saveName() {
+    this.lastRank = this.host.recordHighScore(cleanName(this.name));
+    this.enter('summary');
+  }
+
+  private skipName() {
+    this.enter('summary');
+  }
+
+  // Tap on the name row: ask with the platform's text prompt
+  private editName() {
+    if (!this.host.promptName) return;
+    const name = this.host.promptName(this.name);
+    if (name !== null) this.name = name.toLowerCase().slice(0, MAX_NAME_LENGTH);
+  }
+
+  private enter(id: ScreenId) {
+    this.capture = null;
+    this.current = id;
+    this.menu = this.buildMenu(id);
+  }
+
+  private play() {
+    this.lastRank = -1;
+    this.host.startGame();
+    this.enter('playing');
+  }
+
+  private resume() {
+    this.host.resumeGame();
+    this.enter('playing');
+  }
+
+  // One device at a time: keys and buttons are rebound by selecting an action
+  // and pressing the new one; gestures step through the actions.
+  private controlsMenu(): Menu {
+    const settings = { ...this.host.getSettings() };
+    const save = () => this.host.setSettings({ ...settings });
+    const menu = new Menu('controls', [], () => this.back());
+    const hint = () => {
+      const device = this.controlDevice;
+      menu.lines = [device === 'keyboard' || device === 'gamepad' ? 'select an action to rebind it' : 'left / right picks the action'];
+    };
+    // Wait for the next key or button and give it to the action
+    const waitFor = (label: string, bind: (input: string | number) => void) => {
+      const device = this.controlDevice;
+      menu.lines = [`press a ${device === 'keyboard' ? 'key' : 'button'} for ${label}`, 'escape cancels'];
+      this.capture = {
+        device,
+        bind: (input) => {
+          bind(input);
+          save();
+          this.capture!.done();
+        },
+        done: () => {
+          this.capture = null;
+          hint();
+        },
+      };
+    };
+    const gestureRow = ({ gesture, label }: { gesture: Gesture; label: string }): MenuItem => {
+      const choices = [null, ...INPUT_ACTIONS.map((a) => a.action)];
+      return {
+        label,
+        value: () => INPUT_ACTIONS.find((a) => a.action === settings.gestures[gesture])?.label ?? 'none',
+        change: (delta) => {
+          const i = choices.indexOf(settings.gestures[gesture]);
+          settings.gestures = { ...settings.gestures, [gesture]: choices[(i + delta + choices.length) % choices.length] };
+          save();
+        },
+      };
+    };
+    const resetGestures = (list: { gesture: Gesture }[]) => {
+      const gestures = { ...settings.gestures };
+      for (const { gesture } of list) gestures[gesture] = DEFAULT_GESTURES[gesture];
+      settings.gestures = gestures;
+    };
+
+    const rows = (): MenuItem[] => {
+      const device: MenuItem = {
+        label: 'device',
+        value: () => this.controlDevice,
+        change: (delta) => {
+          const i = CONTROL_DEVICES.indexOf(this.controlDevice);
+          this.controlDevice = CONTROL_DEVICES[(i + delta + CONTROL_DEVICES.length) % CONTROL_DEVICES.length];
+          menu.items = rows();
+          hint();
+        },
+      };
+      let items: MenuItem[] = [];
+      let reset = () => {};
+      switch (this.controlDevice) {
+        case 'keyboard':
+          items = INPUT_ACTIONS.map(({ action, label }) => ({
+            label,
+            value: () => settings.keys[action].map(keyName).join(' ') || 'none',
+            select: () => waitFor(label, (key) => (settings.keys = rebind(settings.keys, action, key as string))),
+          }));
+          reset = () => (settings.keys = DEFAULT_KEYS);
+          break;
+        case 'gamepad': {
+          const actions: { action: PadAction; label: string }[] = [...INPUT_ACTIONS, { action: 'back', label: 'menu back' }];
+          items = actions.map(({ action, label }) => ({
+            label,
+            value: () => settings.pad[action].map(buttonName).join(' ') || 'none',
+            select: () => waitFor(label, (button) => (settings.pad = rebind(settings.pad, action, button as number))),
+          }));
+          reset = () => (settings.pad = DEFAULT_PAD);
+          break;
+        }
+        case 'mouse':
+          items = MOUSE_GESTURES.map(gestureRow);
+          reset = () => resetGestures(MOUSE_GESTURES);
+          break;
+        case 'touch':
+          items = TOUCH_GESTURES.map(gestureRow);
+          reset = () => resetGestures(TOUCH_GESTURES);
+          break;
+      }
+      return [
+        device,
+        ...items,
+        {
+          label: 'reset',
+          select: () => {
+            reset();
+            save();
+          },
+        },
+        { label: 'back', select: () => this.back() },
+      ];
+    };
+    menu.items = rows();
+    hint();
+    return menu;
+  }
+
+  private replayItems(): MenuItem[] {
+    const items: MenuItem[] = [];
+    if (this.host.hasReplay()) {
+      items.push({ label: 'watch replay', select: () => this.host.watchReplay() });
+      items.push({ label: 'export replay', select: () => this.host.exportReplay() });
+    }
+    return items;
+  }
+
+  private buildMenu(id: ScreenId): Menu | null {
+    const back = () => this.back();
+    switch (id) {
+      case 'title': {
+        // a paused game is only thrown away when play is chosen twice
+        let warned = false;
+        const menu = new Menu('double', [
+          ...(this.host.canResume() ? [{ label: 'continue', select: () => this.resume() }] : []),
+          {
+            label: 'play',
+            select: () => {
+              if (warned || !this.host.canResume()) {
+                this.play();
+              } else {
+                warned = true;
+                menu.lines = ['play again to drop the paused game'];
+              }
+            },
+          },
+          { label: 'new game', select: () => this.show('modeSelect') },
+          { label: 'high scores', select: () => this.show('highScores') },
+          { label: 'stats', select: () => this.show('stats') },
+          { label: 'trophies', select: () => this.show('trophies') },
+          { label: 'settings', select: () => this.show('settings') },
+          { label: 'load game', select: () => this.show('saves') },
+          {
+            label: 'load replay',
+            select: () => {
+              this.host.loadReplay().then((problem) => {
+                if (problem) menu.lines = [`can't play that replay`, `(${problem})`];
+              });
+            },
+          },
+        ]);
+        return menu;
+      }
+      case 'modeSelect': {
+        const menu = createSetupMenu({ ...this.host.getRules() }, (rules) => {
+          this.host.setRules(rules);
+          this.play();
+        }, back);
+        // start on the start row so Enter / a tap on it begins right away
+        menu.selected = menu.items.length - 1;
+        return menu;
+      }
+      case 'settings': {
+        const settings = { ...this.host.getSettings() };
+        const toggle = (key: ToggleSetting, label: string): MenuItem => ({
+          label,
+          value: () => (settings[key] ? 'on' : 'off'),
+          change: () => {
+            settings[key] = !settings[key];
+            this.host.setSettings({ ...settings });
+          },
+        });
+        const stepper = (key: NumberSetting, label: string, range: { min: number; max: number; step: number }, unit = ''): MenuItem => ({
+          label,
+          value: () => `${settings[key]}${unit}`,
+          change: (delta) => {
+            settings[key] = Math.max(range.min, Math.min(range.max, settings[key] + delta * range.step));
+            this.host.setSettings({ ...settings });
+          },
+        });
+        return new Menu(
+          'settings',
+          [
+            toggle('haptics', 'vibration'),
+            toggle('autoPause', 'pause on blur'),
+            toggle('sound', 'sound'),
+            toggle('music', 'music'),
+            stepper('volume', 'volume', { min: 0, max: MAX_VOLUME, step: 1 }),
+            toggle('reducedMotion', 'reduce motion'),
+            stepper('longPressMs', 'long press', LONG_PRESS_RANGE, 'ms'),
+            stepper('removalInterval', 'loop speed', REMOVAL_INTERVAL_RANGE, 'ms'),
+            {
+              label: 'controls',
+              value: () =>
+                sameBindings(settings.keys, DEFAULT_KEYS) &&
+                sameBindings(settings.pad, DEFAULT_PAD) &&
+                (Object.keys(DEFAULT_GESTURES) as Gesture[]).every((g) => settings.gestures[g] === DEFAULT_GESTURES[g])
+                  ? 'default'
+                  : 'custom',
+              select: () => this.show('controls'),
+            },
+            { label: 'back', select: back },
+          ],
+          back
+        );
+      }
+      case 'controls':
+        return this.controlsMenu();
+      case 'highScores': {
+        // browse one mode at a time, starting with the mode last played
+        let mode = getMode(this.host.currentMode());
+        const showMode = () => {
+          const entries = this.host.leaderboard(mode.id);
+          menu.lines = entries.length > 0 ? entries.map(formatEntry) : ['no scores yet'];
+        };
+        const menu = new Menu(
+          'high scores',
+          [
+            {
+              label: 'mode',
+              value: () => mode.name,
+              change: (delta) => {
+                const i = GAME_MODES.indexOf(mode);
+                mode = GAME_MODES[(i + delta + GAME_MODES.length) % GAME_MODES.length];
+                showMode();
+              },
+            },
+            { label: 'back', select: back },
+          ],
+          back
+        );
+        showMode();
+        return menu;
+      }
+      case 'stats': {
+        // page 0 is the lifetime overview, the others the game history
+        const stats = this.host.stats();
+        const pages = 1 + Math.ceil(stats.history.length / HISTORY_PAGE);
+        let page = 0;
+        const showPage = () => {
+          const start = (page - 1) * HISTORY_PAGE;
+          menu.lines = page === 0 ? statsOverview(stats) : stats.history.slice(start, start + HISTORY_PAGE).map(formatRecord);
+        };
+        const menu = new Menu(
+          'stats',
+          [
+            {
+              label: 'page',
+              value: () => (page === 0 ? 'overview' : `games ${page}/${pages - 1}`),
+              change: (delta) => {
+                page = (page + delta + pages) % pages;
+                showPage();
+              },
+            },
+            { label: 'back', select: back },
+          ],
+          back
+        );
+        showPage();
+        return menu;
+      }
+      case 'trophies': {
+        // checklist of all badges; the badge row shows one in detail
+        const trophies = this.host.trophies();
+        let index = 0;
+        const showTrophy = () => {
+          const { achievement, unlockedAt } = trophies[index];
+          menu.lines = [
+            ...trophies.map((t) => `${t.unlockedAt ? '[x]' : '[ ]'} ${t.achievement.name}`),
+            '',
+            achievement.description,
+            unlockedAt ? `unlocked ${unlockedAt.slice(5, 7)}/${unlockedAt.slice(8, 10)}` : 'locked',
+          ];
+        };
+        const unlocked = trophies.filter((t) => t.unlockedAt).length;
+        const menu = new Menu(
+          `trophies ${unlocked}/${trophies.length}`,
+          [
+            {
+              label: 'badge',
+              value: () => trophies[index].achievement.name,
+              change: (delta) => {
+                index = (index + delta + trophies.length) % trophies.length;
+                showTrophy();
+              },
+            },
+            { label: 'back', select: back },
+          ],
+          back
+        );
+        showTrophy();
+        return menu;
+      }
+      case 'saves': {
+        // opened from the pause menu it saves, anywhere else it loads
+        const saving = this.returnTo === 'pause';
+        const menu = new Menu(saving ? 'save game' : 'load game', [
+          ...this.host.saveSlots().map(
+            (slot): MenuItem => ({
+              label: slot.name,
+              value: () => formatSlot(slot),
+              select: () => {
+                if (saving) {
+                  this.host.saveToSlot(slot.name);
+                  const selected = menu.selected;
+                  this.enter('saves');
+                  this.menu!.selected = selected;
+                  this.menu!.lines = [`saved to ${slot.name}`];
+                } else if (this.host.loadSlot(slot.name)) {
+                  this.show('pause');
+                } else {
+                  menu.lines = [slot.damaged ? 'that save is damaged' : 'that slot is empty'];
+                }
+              },
+            })
+          ),
+          ...(saving
+            ? [
+                { label: 'export file', select: () => this.host.exportGame() },
+                {
+                  label: 'share link',
+                  select: () => {
+                    this.host.shareLink();
+                    menu.lines = ['link to this board copied'];
+                  },
+                },
+              ]
+            : [
+                {
+                  label: 'import file',
+                  select: () => {
+                    this.host.importGame().then((problem) => {
+                      if (problem) menu.lines = [`can't open that file`, `(${problem})`];
+                    });
+                  },
+                },
+              ]),
+          { label: 'back', select: back },
+        ], back);
+        return menu;
+      }
+      case 'recovery': {
+        const menu = new Menu('save damaged', [
+          {
+            label: 'restore backup',
+            select: () => {
+              if (this.host.restoreBackup()) this.show(this.host.canResume() ? 'pause' : 'title');
+              else menu.lines = ['no usable backup', ...menu.lines.slice(-1)];
+            },
+          },
+          { label: 'load game', select: () => this.show('saves') },
+          { label: 'download save', select: () => this.host.exportDamagedSave() },
+          { label: 'new game', select: () => this.play() },
+          { label: 'title', select: () => this.show('title') },
+        ]);
+        menu.lines = ['the saved game could not be loaded', `(${this.host.loadProblem() ?? 'unknown problem'})`];
+        return menu;
+      }
+      case 'elsewhere': {
+        const menu = new Menu('open elsewhere', [
+          {
+            label: 'take over',
+            select: () => {
+              this.host.takeOver();
+              this.show(this.host.loadProblem() ? 'recovery' : this.host.canResume() ? 'pause' : 'title');
+            },
+          },
+        ]);
+        menu.lines = ['this game is open in another tab'];
+        return menu;
+      }
+      case 'nameEntry': {
+        this.name = this.host.lastPlayerName();
+        const menu = new Menu('new high score', [
+          { label: 'name', value: () => `${this.name}_`, select: () => this.editName() },
+          { label: 'save', select: () => this.saveName() },
+          { label: 'skip', select: () => this.skipName() },
+        ]);
+        menu.lines = [`score ${this.host.summary().score}`, 'type your name'];
+        menu.selected = 1;
+        return menu;
+      }
+      case 'pause':
+        return new Menu(
+          'paused',
+          [
+            { label: 'resume', select: () => this.resume() },
+            { label: 'restart', select: () => this.play() },
+            { label: 'new game', select: () => this.show('modeSelect') },
+            ...this.replayItems(),
+            { label: 'save game', select: () => this.show('saves') },
+            { label: 'settings', select: () => this.show('settings') },
+            { label: 'quit to title', select: () => this.show('title') },
+          ],
+          back
+        );
+      case 'summary': {
+        const menu = new Menu('game over', [
+          { label: 'play again', select: () => this.play() },
+          { label: 'new game', select: () => this.show('modeSelect') },
+          ...this.replayItems(),
+          { label: 'high scores', select: () => this.show('highScores') },
+          { label: 'stats', select: () => this.show('stats') },
+          { label: 'trophies', select: () => this.show('trophies') },
+          { label: 'title', select: () => this.show('title') },
+        ]);
+        const s = this.host.summary();
+        menu.lines = [`score ${s.score}`, `best ${s.best}`, `level ${s.level}  loops ${s.loopsClosed}`];
+        if (this.lastRank >= 0) menu.lines.unshift(`new high score #${this.lastRank + 1}`);
+        if (typeof s.duration === 'number') menu.lines.push(`time ${formatDuration(s.duration)}`);
+        return menu;
+      }
+      case 'playing':
+      case 'replay':
+      case 'sandbox':
+        return null;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_KEYS } from './bindings';
+import { createHeadlessGame, MemoryStorage } from './headless';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from './settings';
+import { setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+
+describe('settings', () => {
+  it('round-trips through storage', () => {
+    const storage = new MemoryStorage();
+    const changed = { ...DEFAULT_SETTINGS, reducedMotion: true, longPressMs: 400, keys: { ...DEFAULT_KEYS, hold: ['q'] } };
+    saveSettings(storage, changed);
+    expect(loadSettings(storage)).toEqual(changed);
+  });
+
+  it('falls back to defaults for missing or out-of-range values', () => {
+    const storage = new MemoryStorage();
+    storage.set('double_settings', JSON.stringify({ haptics: false, volume: 99, removalInterval: 'fast', keys: { place: 'space' } }));
+    expect(loadSettings(storage)).toEqual({ ...DEFAULT_SETTINGS, haptics: false });
+    storage.set('double_settings', '{not json');
+    expect(loadSettings(storage)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('follows the system reduced-motion preference until the player sets one', () => {
+    const storage = new MemoryStorage();
+    expect(loadSettings(storage, true).reducedMotion).toBe(true);
+    // saving anything else leaves it to the system
+    saveSettings(storage, { ...DEFAULT_SETTINGS, reducedMotion: true, haptics: false }, true);
+    expect(loadSettings(storage, false).reducedMotion).toBe(false);
+    saveSettings(storage, { ...DEFAULT_SETTINGS, reducedMotion: false }, true);
+    expect(loadSettings(storage, true).reducedMotion).toBe(false);
+    // and once set, it stays set
+    saveSettings(storage, { ...DEFAULT_SETTINGS, reducedMotion: true }, true);
+    expect(loadSettings(storage, false).reducedMotion).toBe(true);
+  });
+
+  it('removes loop tiles at the configured pace', () => {
+    const h = createHeadlessGame({ seed: 1 });
+    h.game.removalInterval = 50;
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(50);
+    expect(h.game.removing).toBe(false);
+    expect(h.game.state.score).toBe(20);
+  });
+});
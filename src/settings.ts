@@ -0,0 +1,94 @@
+// settings.ts
+// Player preferences shown on the settings screen and kept in storage. Every
+// subsystem reads its tunables from here instead of hard-coding them.
+import { DEFAULT_GESTURES, DEFAULT_KEYS, DEFAULT_PAD, loadGestures, loadKeys, loadPad } from './bindings';
+import type { GestureBindings, KeyBindings, PadBindings } from './bindings';
+import type { KeyValueStorage } from './platform';
+
+export type Settings = {
+  // vibrate on placement / loops (where the device supports it)
+  haptics: boolean;
+  // pause the game when the window loses focus
+  autoPause: boolean;
+  // sound effects and music at all (mute switch), background music, and
+  // their volume in steps of 0 to MAX_VOLUME
+  sound: boolean;
+  music: boolean;
+  volume: number;
+  // no floating popups or flashing (prefers-reduced-motion)
+  reducedMotion: boolean;
+  // touch held this long (ms) is a long press
+  longPressMs: number;
+  // ms between two tiles of a loop removal
+  removalInterval: number;
+  // what keys, gamepad buttons and mouse / touch gestures do (see bindings.ts)
+  keys: KeyBindings;
+  pad: PadBindings;
+  gestures: GestureBindings;
+};
+
+export const MAX_VOLUME = 10;
+// Ranges (and steps) offered on the settings screen
+export const LONG_PRESS_RANGE = { min: 150, max: 600, step: 50 };
+export const REMOVAL_INTERVAL_RANGE = { min: 50, max: 300, step: 25 };
+
+export const DEFAULT_SETTINGS: Settings = {
+  haptics: true,
+  autoPause: true,
+  sound: true,
+  music: false,
+  volume: 7,
+  reducedMotion: false,
+  longPressMs: 250,
+  removalInterval: 150,
+  keys: DEFAULT_KEYS,
+  pad: DEFAULT_PAD,
+  gestures: DEFAULT_GESTURES,
+};
+
+const SETTINGS_KEY = 'double_settings';
+
+// systemReducedMotion is the system's prefers-reduced-motion, the default
+// until the player sets reducedMotion themselves
+export function loadSettings(storage: KeyValueStorage, systemReducedMotion = false): Settings {
+  const defaults = { ...DEFAULT_SETTINGS, reducedMotion: systemReducedMotion };
+  try {
+    const raw = JSON.parse(storage.get(SETTINGS_KEY) || '{}');
+    const bool = (key: 'haptics' | 'autoPause' | 'sound' | 'music' | 'reducedMotion') =>
+      typeof raw[key] === 'boolean' ? raw[key] : defaults[key];
+    const int = (key: 'volume' | 'longPressMs' | 'removalInterval', min: number, max: number) =>
+      Number.isInteger(raw[key]) && raw[key] >= min && raw[key] <= max ? raw[key] : DEFAULT_SETTINGS[key];
+    return {
+      haptics: bool('haptics'),
+      autoPause: bool('autoPause'),
+      sound: bool('sound'),
+      music: bool('music'),
+      volume: int('volume', 0, MAX_VOLUME),
+      reducedMotion: bool('reducedMotion'),
+      longPressMs: int('longPressMs', LONG_PRESS_RANGE.min, LONG_PRESS_RANGE.max),
+      removalInterval: int('removalInterval', REMOVAL_INTERVAL_RANGE.min, REMOVAL_INTERVAL_RANGE.max),
+      keys: loadKeys(raw.keys),
+      pad: loadPad(raw.pad),
+      gestures: loadGestures(raw.gestures),
+    };
+  } catch (e) {
+    return defaults;
+  }
+}
+
+// reducedMotion is only written once the player picks something other than
+// the system preference, so saving other settings doesn't pin it
+export function saveSettings(storage: KeyValueStorage, settings: Settings, systemReducedMotion = false) {
+  try {
+    const { reducedMotion, ...rest } = settings;
+    let chosen = reducedMotion !== systemReducedMotion;
+    try {
+      chosen ||= typeof JSON.parse(storage.get(SETTINGS_KEY) || '{}').reducedMotion === 'boolean';
+    } catch (e) {
+      // ignore unreadable settings; they are overwritten
+    }
+    storage.set(SETTINGS_KEY, JSON.stringify(chosen ? settings : rest));
+  } catch (e) {
+    // ignore
+  }
+}
@@ -0,0 +1,64 @@
+// setupScreen.ts
+// New-game setup menu: rule preset, board size, mode, difficulty and preview length.
+import { DIFFICULTIES } from './difficulty';
+import { Menu } from './menu';
+import { GAME_MODES, getMode } from './modes';
+import { BOARD_LIMITS, findPreset, RULE_PRESETS } from './rules';
+import type { GameRules } from './rules';
+
+// Step through a list, wrapping around at both ends
+function cycle<T>(list: T[], current: T, delta: number): T {
+  const i = list.indexOf(current);
+  return list[(i + delta + list.length) % list.length];
+}
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// `rules` is edited in place; onStart receives it when the player starts.
+export function createSetupMenu(rules: GameRules, onStart: (rules: GameRules) => void, onBack?: () => void): Menu {
+  return new Menu(
+    'new game',
+    [
+      {
+        label: 'rules',
+        value: () => findPreset(rules)?.name ?? 'Custom',
+        change: (delta) => {
+          const current = findPreset(rules);
+          const next = current ? cycle(RULE_PRESETS, current, delta) : RULE_PRESETS[0];
+          rules.mode = next.mode;
+          rules.difficulty = next.difficulty;
+          rules.boardWidth = next.boardWidth;
+          rules.boardHeight = next.boardHeight;
+          rules.previewCount = next.previewCount;
+        },
+      },
+      {
+        label: 'width',
+        value: () => String(rules.boardWidth),
+        change: (delta) => (rules.boardWidth = clamp(rules.boardWidth + delta, BOARD_LIMITS.minWidth, BOARD_LIMITS.maxWidth)),
+      },
+      {
+        label: 'height',
+        value: () => String(rules.boardHeight),
+        change: (delta) => (rules.boardHeight = clamp(rules.boardHeight + delta, BOARD_LIMITS.minHeight, BOARD_LIMITS.maxHeight)),
+      },
+      {
+        label: 'mode',
+        value: () => getMode(rules.mode).name,
+        change: (delta) => (rules.mode = cycle(GAME_MODES, getMode(rules.mode), delta).id),
+      },
+      {
+        label: 'speed',
+        value: () => DIFFICULTIES.find((d) => d.id === rules.difficulty)?.name ?? rules.difficulty,
+        change: (delta) => (rules.difficulty = cycle(DIFFICULTIES.map((d) => d.id), rules.difficulty, delta)),
+      },
+      {
+        label: 'preview',
+        value: () => String(rules.previewCount),
+        change: (delta) => (rules.previewCount = clamp(rules.previewCount + delta, 1, 3)),
+      },
+      { label: 'start', select: () => onStart(rules) },
+    ],
+    onBack
+  );
+}
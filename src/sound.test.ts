@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createHeadlessGame } from './headless';
+import { attachSounds } from './sound';
+import type { SoundCue } from './sound';
+import { loadBoard, setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const LONG_STRAIGHT = 2;
+const SHORT_STRAIGHT = 1;
+const REMOVAL_INTERVAL = 150;
+const TIMER = 9000;
+
+const empty = (n: number) => Array.from({ length: n }, () => '..........');
+
+// Headless game whose cues are written down as 'cue' or 'cue:step'
+function heardGame() {
+  const h = createHeadlessGame({ seed: 1 });
+  const heard: string[] = [];
+  attachSounds(h.game.events, { play: (cue: SoundCue, step?: number) => heard.push(step === undefined ? cue : `${cue}:${step}`) });
+  return { ...h, heard };
+}
+
+describe('attachSounds', () => {
+  it('plays a rising tile for each tile of a loop and a fanfare for a board clear', () => {
+    const h = heardGame();
+    // (a Honeynut looks the same every way round and doesn't turn)
+    setPiece(h.game, LONG_STRAIGHT, 0, 4, 4);
+    h.game.rotatePiece();
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    expect(h.heard).toEqual(['rotate', 'place', 'tile:0', 'tile:1', 'tile:2', 'tile:3', 'doubling']);
+  });
+
+  it('bumps on blocked placements and halves exact matches without tile notes', () => {
+    const h = heardGame();
+    loadBoard(h.game, ['─│........', ...empty(19)]);
+    h.game.state.score = 20;
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    h.game.placePiece();
+    h.game.movePiece(1, 0);
+    h.game.placePiece();
+    h.tick(REMOVAL_INTERVAL);
+    expect(h.heard).toEqual(['blocked', 'move', 'halving']);
+  });
+
+  it('counts down the last three seconds and ends with game over', () => {
+    const h = heardGame();
+    loadBoard(h.game, ['─.........', ...empty(19)]);
+    setPiece(h.game, SHORT_STRAIGHT, 0, 0, 0);
+    for (let t = 0; t < TIMER; t += 500) h.tick(500);
+    expect(h.heard).toEqual(['countdown:0', 'countdown:1', 'countdown:2', 'gameOver']);
+  });
+});
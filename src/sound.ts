@@ -0,0 +1,176 @@
+// sound.ts
+// Synthesized sound effects and background music. Nothing is loaded from
+// files: every cue is a few oscillator notes shaped by a short gain envelope,
+// and the music is a chord loop generated note by note. attachSounds maps
+// game events to cues; WebAudioSounds plays them in the browser.
+import type { GameEventBus } from './gameEvents';
+
+export type SoundCue = 'move' | 'rotate' | 'place' | 'blocked' | 'tile' | 'halving' | 'doubling' | 'countdown' | 'gameOver';
+
+// step counts repeated cues up (tiles of one removal, countdown seconds)
+export interface SoundPlayer {
+  play(cue: SoundCue, step?: number): void;
+}
+
+export function attachSounds(events: GameEventBus, sounds: SoundPlayer) {
+  // exact-match removals take their tiles away quietly and sound once when halving
+  let exactMatch = false;
+  events.on('pieceMoved', () => sounds.play('move'));
+  events.on('pieceRotated', () => sounds.play('rotate'));
+  events.on('piecePlaced', () => sounds.play('place'));
+  events.on('placementBlocked', () => sounds.play('blocked'));
+  events.on('loopDetected', () => (exactMatch = false));
+  events.on('exactMatchRemoval', () => (exactMatch = true));
+  // tile n of a loop scores n, so each one sounds a step higher
+  events.on('tileRemoved', (e) => {
+    if (!exactMatch) sounds.play('tile', e.index);
+  });
+  events.on('scoreChanged', (e) => {
+    if (e.reason === 'halving') sounds.play('halving');
+  });
+  events.on('boardCleared', () => sounds.play('doubling'));
+  events.on('timerWarning', (e) => sounds.play('countdown', 3 - e.secondsLeft));
+  events.on('gameOver', () => sounds.play('gameOver'));
+}
+
+// One oscillator note: frequency (sliding to `to`), start offset and length in
+// seconds, peak gain
+type Note = { freq: number; to?: number; at?: number; length: number; wave: OscillatorType; gain: number };
+
+// Frequency `semitones` above (or below) freq
+const semitone = (freq: number, semitones: number) => freq * 2 ** (semitones / 12);
+
+// Semitones of a major scale over two octaves
+const MAJOR_STEPS = [0, 2, 4, 5, 7, 9, 11, 12, 14, 16, 17, 19, 21, 23, 24];
+
+const CUES: Record<SoundCue, (step: number) => Note[]> = {
+  move: () => [{ freq: 220, length: 0.03, wave: 'square', gain: 0.04 }],
+  rotate: () => [{ freq: 330, to: 440, length: 0.06, wave: 'triangle', gain: 0.12 }],
+  place: () => [{ freq: 160, to: 80, length: 0.12, wave: 'sine', gain: 0.35 }],
+  blocked: () => [
+    { freq: 110, length: 0.14, wave: 'sawtooth', gain: 0.1 },
+    { freq: 104, length: 0.14, wave: 'sawtooth', gain: 0.1 },
+  ],
+  // a major scale upwards, capped two octaves up for very long loops
+  tile: (step) => [{ freq: semitone(392, MAJOR_STEPS[Math.min(step, MAJOR_STEPS.length - 1)]), length: 0.1, wave: 'triangle', gain: 0.15 }],
+  halving: () => [
+    { freq: 523, to: 262, length: 0.35, wave: 'square', gain: 0.08 },
+    { freq: 392, to: 196, at: 0.12, length: 0.35, wave: 'square', gain: 0.08 },
+  ],
+  doubling: () => [523, 659, 784, 1047].map((freq, i) => ({ freq, at: i * 0.07, length: 0.14, wave: 'triangle' as const, gain: 0.16 })),
+  countdown: (step) => [{ freq: step < 2 ? 660 : 990, length: step < 2 ? 0.06 : 0.12, wave: 'square', gain: 0.07 }],
+  gameOver: () => [392, 330, 262, 196].map((freq, i) => ({ freq, at: i * 0.18, length: 0.3, wave: 'triangle' as const, gain: 0.18 })),
+};
+
+// Background music: one chord per bar (root in Hz), bass on the beat and an
+// arpeggio of the chord in eighths
+const CHORDS = [
+  { root: 110, third: 3 }, // Am
+  { root: 87.31, third: 4 }, // F
+  { root: 130.81, third: 4 }, // C
+  { root: 98, third: 4 }, // G
+];
+const BEAT = 0.4; // s
+const BEATS_PER_BAR = 4;
+// music notes are scheduled this far ahead, topped up every MUSIC_TICK_MS
+const LOOKAHEAD = 0.6; // s
+const MUSIC_TICK_MS = 200;
+
+export class WebAudioSounds implements SoundPlayer {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private volume = 1;
+  private muted = false;
+  // music: whether it should play, when the next beat is due, which beat
+  private musicOn = false;
+  private musicTimer: number | null = null;
+  private nextBeatTime = 0;
+  private beat = 0;
+
+  // Browsers only let audio start from a user gesture: call this from one
+  unlock() {
+    const ctx = this.context();
+    if (ctx && ctx.state === 'suspended') ctx.resume().catch(() => {});
+  }
+
+  // volume 0..1
+  setVolume(volume: number, muted: boolean) {
+    this.volume = volume;
+    this.muted = muted;
+    if (this.master) this.master.gain.value = muted ? 0 : volume;
+  }
+
+  // Start or stop the background music (cheap to call every frame)
+  setMusic(on: boolean) {
+    if (on === this.musicOn) return;
+    this.musicOn = on;
+    if (this.musicTimer !== null) window.clearInterval(this.musicTimer);
+    this.musicTimer = null;
+    const ctx = this.context();
+    if (!on || !ctx) return;
+    this.nextBeatTime = ctx.currentTime + 0.05;
+    this.musicTimer = window.setInterval(() => this.scheduleMusic(), MUSIC_TICK_MS);
+  }
+
+  play(cue: SoundCue, step = 0) {
+    const ctx = this.context();
+    if (!ctx || ctx.state !== 'running' || this.muted) return;
+    const now = ctx.currentTime;
+    for (const note of CUES[cue](step)) this.note(note, now);
+  }
+
+  private scheduleMusic() {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running' || this.muted) {
+      // keep time without piling up notes while silent
+      if (ctx) this.nextBeatTime = ctx.currentTime + 0.05;
+      return;
+    }
+    while (this.nextBeatTime < ctx.currentTime + LOOKAHEAD) {
+      const chord = CHORDS[Math.floor(this.beat / BEATS_PER_BAR) % CHORDS.length];
+      const t = this.nextBeatTime;
+      if (this.beat % 2 === 0) this.note({ freq: chord.root, length: BEAT * 1.8, wave: 'sine', gain: 0.12 }, t);
+      const arpeggio = [0, chord.third, 7, 12];
+      for (let half = 0; half < 2; half++) {
+        const step = arpeggio[((this.beat % BEATS_PER_BAR) * 2 + half) % arpeggio.length];
+        this.note({ freq: semitone(chord.root * 4, step), length: BEAT / 2, wave: 'triangle', gain: 0.035 }, t + (half * BEAT) / 2);
+      }
+      this.beat++;
+      this.nextBeatTime += BEAT;
+    }
+  }
+
+  private note(note: Note, now: number) {
+    const ctx = this.ctx!;
+    const start = now + (note.at ?? 0);
+    const end = start + note.length;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = note.wave;
+    osc.frequency.setValueAtTime(note.freq, start);
+    if (note.to) osc.frequency.exponentialRampToValueAtTime(note.to, end);
+    // quick attack, exponential release (ramps can't reach 0)
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(note.gain, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, end);
+    osc.connect(gain).connect(this.master!);
+    osc.start(start);
+    osc.stop(end + 0.02);
+  }
+
+  // Created on first use; null where WebAudio isn't available
+  private context(): AudioContext | null {
+    if (this.ctx) return this.ctx;
+    try {
+      if (typeof AudioContext === 'undefined') return null;
+      this.ctx = new AudioContext();
+      this.master = this.ctx.createGain();
+      this.master.gain.value = this.muted ? 0 : this.volume;
+      this.master.connect(this.ctx.destination);
+    } catch (e) {
+      // ignore; the game stays silent
+      this.ctx = null;
+    }
+    return this.ctx;
+  }
+}
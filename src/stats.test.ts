@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createHeadlessGame } from './headless';
+import { averageScore, HISTORY_SIZE, StatsTracker } from './stats';
+import { setPiece } from './testFixtures';
+
+const HONEYNUT = 8;
+const REMOVAL_INTERVAL = 150;
+const TIMER = 9000;
+
+// Headless game whose events feed a tracker sharing the game's storage
+function trackedGame(seed = 1) {
+  const h = createHeadlessGame({ seed, start: false });
+  const tracker = new StatsTracker(h.storage);
+  h.game.onEvent((e) => tracker.handle(e));
+  h.game.start({ seed });
+  return { ...h, tracker };
+}
+
+describe('StatsTracker', () => {
+  it('folds finished games into lifetime stats and history', () => {
+    const h = trackedGame();
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    h.tick(TIMER);
+    h.game.end();
+
+    const s = h.tracker.stats;
+    expect(s.gamesPlayed).toBe(1);
+    // 10 for the loop, doubled by the board clear, minus one auto-drop
+    expect(s.totalScore).toBe(10);
+    expect(s.loopsClosed).toBe(1);
+    expect(s.longestLoop).toBe(4);
+    expect(s.bestPayout).toBe(10);
+    expect(s.boardClears).toBe(1);
+    expect(s.autoDrops).toBe(1);
+    expect(s.autoDropPoints).toBe(10);
+    expect(s.timePlayed).toBe(4 * REMOVAL_INTERVAL + TIMER);
+    expect(s.history).toHaveLength(1);
+    expect(s.history[0]).toMatchObject({ mode: 'classic', width: 10, height: 20, score: 10, loopsClosed: 1 });
+    expect(averageScore(s)).toBe(10);
+  });
+
+  it('keeps counting a game across a reload', () => {
+    const h = trackedGame();
+    setPiece(h.game, HONEYNUT, 0, 0, 0);
+    h.game.placePiece();
+    for (let i = 0; i < 4; i++) h.tick(REMOVAL_INTERVAL);
+    const reloaded = new StatsTracker(h.storage);
+    reloaded.handle({ type: 'gameOver', score: 20, duration: 1000, level: 1, loopsClosed: 1 });
+    expect(reloaded.stats.gamesPlayed).toBe(1);
+    expect(reloaded.stats.longestLoop).toBe(4);
+    expect(new StatsTracker(h.storage).stats.totalScore).toBe(20);
+  });
+
+  it('reloads what another tab saved in place of its own', () => {
+    const h = trackedGame();
+    const other = new StatsTracker(h.storage);
+    other.handle({ type: 'gameStarted', mode: 'classic', width: 10, height: 20, seed: 2 });
+    other.handle({ type: 'gameOver', score: 30, duration: 1000, level: 1, loopsClosed: 0 });
+    expect(h.tracker.stats.gamesPlayed).toBe(0);
+    h.tracker.reload();
+    expect(h.tracker.stats.gamesPlayed).toBe(1);
+    expect(h.tracker.stats.totalScore).toBe(30);
+  });
+
+  it('does not write storage for moves and turns', () => {
+    const h = trackedGame();
+    const set = vi.spyOn(h.storage, 'set');
+    h.game.movePiece(1, 0);
+    h.game.rotatePiece();
+    expect(set.mock.calls.filter(([key]) => key === 'double_stats')).toEqual([]);
+  });
+
+  it('does not count abandoned games and caps the history', () => {
+    const h = trackedGame();
+    h.game.start();
+    expect(h.tracker.stats.gamesPlayed).toBe(0);
+    for (let i = 0; i < HISTORY_SIZE + 5; i++) {
+      h.tracker.handle({ type: 'gameStarted', mode: 'bag', width: 6, height: 10, seed: i });
+      h.tracker.handle({ type: 'gameOver', score: i, duration: 10, level: 1, loopsClosed: 0 });
+    }
+    expect(h.tracker.stats.gamesPlayed).toBe(HISTORY_SIZE + 5);
+    expect(h.tracker.stats.history).toHaveLength(HISTORY_SIZE);
+    expect(h.tracker.stats.history[0].score).toBe(HISTORY_SIZE + 4);
+  });
+});
@@ -0,0 +1,178 @@
+// stats.ts
+// Lifetime player statistics and a short per-game history, collected from
+// game events and kept in storage.
+import type { GameEvent } from './gameEvents';
+import type { KeyValueStorage } from './platform';
+
+// One finished game
+export type GameRecord = {
+  date: string; // ISO timestamp of the game end
+  mode: string;
+  width: number;
+  height: number;
+  score: number;
+  duration: number; // ms played, pauses left out
+  loopsClosed: number;
+  longestLoop: number;
+  bestPayout: number;
+  exactMatches: number;
+  boardClears: number;
+  autoDrops: number;
+};
+
+export type LifetimeStats = {
+  gamesPlayed: number;
+  totalScore: number;
+  loopsClosed: number;
+  longestLoop: number; // tiles
+  bestPayout: number; // largest single removal payout
+  exactMatches: number;
+  boardClears: number; // board-empty doublings
+  autoDrops: number;
+  autoDropPoints: number; // points lost to auto-drop penalties
+  timePlayed: number; // ms
+  // most recent game first
+  history: GameRecord[];
+};
+
+// Games kept in the history list
+export const HISTORY_SIZE = 50;
+
+const STATS_KEY = 'double_stats';
+
+export function emptyStats(): LifetimeStats {
+  return {
+    gamesPlayed: 0,
+    totalScore: 0,
+    loopsClosed: 0,
+    longestLoop: 0,
+    bestPayout: 0,
+    exactMatches: 0,
+    boardClears: 0,
+    autoDrops: 0,
+    autoDropPoints: 0,
+    timePlayed: 0,
+    history: [],
+  };
+}
+
+export function averageScore(stats: LifetimeStats): number {
+  return stats.gamesPlayed > 0 ? Math.round(stats.totalScore / stats.gamesPlayed) : 0;
+}
+
+type GameInProgress = Omit<GameRecord, 'date' | 'score' | 'duration'> & { autoDropPoints: number };
+
+// Folds game events into lifetime stats. The game in progress is stored too,
+// so a reload in the middle of a game keeps counting it. Games abandoned by
+// starting a new one are not counted.
+export class StatsTracker {
+  private storage: KeyValueStorage;
+  private lifetime: LifetimeStats = emptyStats();
+  private current: GameInProgress | null = null;
+
+  constructor(storage: KeyValueStorage) {
+    this.storage = storage;
+    this.load();
+  }
+
+  get stats(): LifetimeStats {
+    return this.lifetime;
+  }
+
+  handle(event: GameEvent) {
+    if (event.type === 'gameStarted') {
+      this.current = {
+        mode: event.mode,
+        width: event.width,
+        height: event.height,
+        loopsClosed: 0,
+        longestLoop: 0,
+        bestPayout: 0,
+        exactMatches: 0,
+        boardClears: 0,
+        autoDrops: 0,
+        autoDropPoints: 0,
+      };
+      this.save();
+      return;
+    }
+    const game = this.current;
+    if (!game) return;
+    switch (event.type) {
+      case 'loopDetected':
+        game.loopsClosed++;
+        game.longestLoop = Math.max(game.longestLoop, event.length);
+        break;
+      case 'removalFinished':
+        game.bestPayout = Math.max(game.bestPayout, event.points);
+        break;
+      case 'exactMatchRemoval':
+        game.exactMatches++;
+        break;
+      case 'boardCleared':
+        game.boardClears++;
+        break;
+      case 'autoDrop':
+        game.autoDrops++;
+        game.autoDropPoints += event.penalty;
+        break;
+      case 'gameOver':
+        this.finish(game, event.score, event.duration);
+        this.current = null;
+        break;
+      default:
+        // moves, turns and the like change nothing here: no write
+        return;
+    }
+    this.save();
+  }
+
+  private finish(game: GameInProgress, score: number, duration: number) {
+    const { autoDropPoints, ...rest } = game;
+    const record: GameRecord = { ...rest, date: new Date().toISOString(), score, duration };
+    const s = this.lifetime;
+    s.gamesPlayed++;
+    s.totalScore += score;
+    s.loopsClosed += game.loopsClosed;
+    s.longestLoop = Math.max(s.longestLoop, game.longestLoop);
+    s.bestPayout = Math.max(s.bestPayout, game.bestPayout);
+    s.exactMatches += game.exactMatches;
+    s.boardClears += game.boardClears;
+    s.autoDrops += game.autoDrops;
+    s.autoDropPoints += autoDropPoints;
+    s.timePlayed += duration;
+    s.history = [record, ...s.history].slice(0, HISTORY_SIZE);
+  }
+
+  // Read the stats back from storage, dropping what this tracker holds (a
+  // tab taking the game over from another one)
+  reload() {
+    this.lifetime = emptyStats();
+    this.current = null;
+    this.load();
+  }
+
+  private load() {
+    try {
+      const raw = JSON.parse(this.storage.get(STATS_KEY) || 'null');
+      if (!raw || typeof raw !== 'object') return;
+      const base = emptyStats();
+      for (const key of Object.keys(base) as (keyof LifetimeStats)[]) {
+        if (key !== 'history' && Number.isFinite(raw.lifetime?.[key])) (base[key] as number) = raw.lifetime[key];
+      }
+      if (Array.isArray(raw.lifetime?.history)) base.history = raw.lifetime.history.slice(0, HISTORY_SIZE);
+      this.lifetime = base;
+      this.current = raw.current && typeof raw.current === 'object' ? raw.current : null;
+    } catch (e) {
+      // ignore corrupt stats; they start over
+    }
+  }
+
+  private save() {
+    try {
+      this.storage.set(STATS_KEY, JSON.stringify({ lifetime: this.lifetime, current: this.current }));
+    } catch (e) {
+      // ignore
+    }
+  }
+}
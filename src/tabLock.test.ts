@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ManualClock, MemoryStorage } from './headless';
+import { HEARTBEAT_MS, OWNER_TIMEOUT_MS, TabLock } from './tabLock';
+
+// Tabs sharing one storage; the clock doubles as wall time
+function tabs() {
+  const storage = new MemoryStorage();
+  const clock = new ManualClock(1000);
+  const tab = (id: string) => new TabLock(storage, clock, () => clock.now(), id);
+  return { storage, clock, tab };
+}
+
+describe('TabLock', () => {
+  it('lets the first tab own the game and keeps the second one out', () => {
+    const { clock, tab } = tabs();
+    const first = tab('a');
+    const second = tab('b');
+    expect(first.acquire()).toBe(true);
+    clock.advance(OWNER_TIMEOUT_MS * 2);
+    // the owner's heartbeat keeps its claim fresh
+    expect(second.acquire()).toBe(false);
+  });
+
+  it('tells the owner when another tab takes over', () => {
+    const { tab } = tabs();
+    const first = tab('a');
+    let lost = 0;
+    first.onLost = () => lost++;
+    first.acquire();
+    const second = tab('b');
+    second.takeOver();
+    first.check();
+    first.check();
+    expect(lost).toBe(1);
+    expect(first.owns).toBe(false);
+    expect(second.owns).toBe(true);
+  });
+
+  it('notices a take-over on its next heartbeat without a storage event', () => {
+    const { clock, tab } = tabs();
+    const first = tab('a');
+    let lost = false;
+    first.onLost = () => (lost = true);
+    first.acquire();
+    tab('b').takeOver();
+    clock.advance(HEARTBEAT_MS);
+    expect(lost).toBe(true);
+  });
+
+  it('ignores owners that closed or stopped answering', () => {
+    const { storage, clock, tab } = tabs();
+    const closed = tab('a');
+    closed.acquire();
+    closed.release();
+    expect(tab('b').acquire()).toBe(true);
+
+    storage.set('double_tab_owner', JSON.stringify({ id: 'crashed', at: clock.now() - OWNER_TIMEOUT_MS }));
+    expect(tab('c').acquire()).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+// tabLock.ts
+// Decides which browser tab owns the game in progress. The owner keeps its id
+// and a heartbeat in storage; a tab that finds a fresh heartbeat from another
+// tab leaves the game alone until the player takes it over. The tab that
+// loses the game notices on the storage event the take-over causes (or on its
+// next heartbeat at the latest).
+import type { Clock, KeyValueStorage } from './platform';
+
+const OWNER_KEY = 'double_tab_owner';
+export const HEARTBEAT_MS = 2000;
+// An owner silent for this long was closed or crashed and no longer counts
+export const OWNER_TIMEOUT_MS = 3 * HEARTBEAT_MS;
+
+type Owner = { id: string; at: number };
+
+export class TabLock {
+  readonly id: string;
+  owns = false;
+  // Called once another tab has taken the game over
+  onLost: (() => void) | null = null;
+  private storage: KeyValueStorage;
+  private clock: Clock;
+  // Wall time (shared between tabs, unlike the game clock)
+  private now: () => number;
+  private timer: number | null = null;
+
+  constructor(storage: KeyValueStorage, clock: Clock, now: () => number = Date.now, id = Math.random().toString(36).slice(2)) {
+    this.storage = storage;
+    this.clock = clock;
+    this.now = now;
+    this.id = id;
+  }
+
+  // Own the game unless another tab is playing it. Returns true if this tab owns it.
+  acquire(): boolean {
+    const owner = this.readOwner();
+    if (owner && owner.id !== this.id && this.now() - owner.at < OWNER_TIMEOUT_MS) return false;
+    this.takeOver();
+    return true;
+  }
+
+  // Own the game whether or not another tab is playing it
+  takeOver() {
+    this.owns = true;
+    this.writeOwner();
+    this.schedule();
+  }
+
+  // Give the game up (the tab is closing)
+  release() {
+    if (this.owns && this.readOwner()?.id === this.id) this.storage.remove(OWNER_KEY);
+    this.owns = false;
+    this.stop();
+  }
+
+  // See whether another tab took the game over (on storage events)
+  check() {
+    if (!this.owns) return;
+    const owner = this.readOwner();
+    if (!owner || owner.id === this.id) return;
+    this.owns = false;
+    this.stop();
+    this.onLost?.();
+  }
+
+  private schedule() {
+    this.stop();
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.check();
+      if (!this.owns) return;
+      this.writeOwner();
+      this.schedule();
+    }, HEARTBEAT_MS);
+  }
+
+  private stop() {
+    if (this.timer !== null) this.clock.clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private writeOwner() {
+    try {
+      const owner: Owner = { id: this.id, at: this.now() };
+      this.storage.set(OWNER_KEY, JSON.stringify(owner));
+    } catch (e) {
+      // ignore
+    }
+  }
+
+  private readOwner(): Owner | null {
+    try {
+      const owner = JSON.parse(this.storage.get(OWNER_KEY) ?? 'null');
+      return owner && typeof owner.id === 'string' && Number.isFinite(owner.at) ? owner : null;
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+// testFixtures.ts
+// Helpers for building boards and pieces from readable text fixtures in tests.
+//
+// Cell characters:  . empty   ┌ lo   ┐ ro   └ lu   ┘ ru   ─ wg   │ sk
+import { Board, CELL_EMPTY, CELL_LO, CELL_LU, CELL_RO, CELL_RU, CELL_SK, CELL_WG } from './board';
+import type { Cell } from './board';
+import type { Game, StartOptions } from './game';
+import { createHeadlessGame } from './headless';
+import { Piece, PIECE_SHAPES } from './piece';
+import { Mulberry32 } from './random';
+
+const CHAR_TO_CELL: Record<string, Cell> = {
+  '.': CELL_EMPTY,
+  '┌': CELL_LO,
+  '┐': CELL_RO,
+  '└': CELL_LU,
+  '┘': CELL_RU,
+  '─': CELL_WG,
+  '│': CELL_SK,
+};
+
+const CELL_TO_CHAR: Record<number, string> = Object.fromEntries(
+  Object.entries(CHAR_TO_CELL).map(([ch, cell]) => [cell, ch])
+);
+
+// Names of PIECE_SHAPES in index order (matches the comments in piece.ts)
+export const PIECE_NAMES = [
+  'small corner',
+  'short straight',
+  'long straight',
+  's-piece 1',
+  's-piece 2',
+  'u-turn',
+  'noname 1',
+  'noname 2',
+  'honeynut loop',
+  'wulst',
+  'graffl',
+  'large corner',
+];
+
+// Build a board from rows of cell characters. All rows must have equal length.
+export function boardFromRows(rows: string[]): Board {
+  const height = rows.length;
+  const width = [...rows[0]].length;
+  const board = new Board(width, height);
+  rows.forEach((row, y) => {
+    const chars = [...row];
+    if (chars.length !== width) throw new Error(`row ${y} has ${chars.length} cells, expected ${width}`);
+    chars.forEach((ch, x) => {
+      const cell = CHAR_TO_CELL[ch];
+      if (cell === undefined) throw new Error(`unknown cell character '${ch}'`);
+      board.setCell(x, y, cell);
+    });
+  });
+  return board;
+}
+
+// Inverse of boardFromRows, handy for readable assertions
+export function boardToRows(board: Board): string[] {
+  return board.grid.map((row) => row.map((cell) => CELL_TO_CHAR[cell] ?? '?').join(''));
+}
+
+// Replace the game's board contents (keeps the Board instance shared with state)
+export function loadBoard(game: Game, rows: string[]) {
+  const src = boardFromRows(rows);
+  game.board.width = src.width;
+  game.board.height = src.height;
+  game.board.grid = src.grid;
+}
+
+// Put a specific hovering piece on the game
+export function setPiece(game: Game, shapeIndex: number, rotation: number, x: number, y: number): Piece {
+  const piece = new Piece(PIECE_SHAPES[shapeIndex], x, y);
+  piece.rotation = rotation;
+  game.currentPiece = piece;
+  game.state.currentPiece = piece;
+  return piece;
+}
+
+// Board coordinates covered by the non-empty cells of a piece
+export function pieceCells(piece: Piece): { x: number; y: number; cell: Cell }[] {
+  const cells: { x: number; y: number; cell: Cell }[] = [];
+  const s = piece.shape;
+  for (let x = 0; x < s.length; x++) {
+    for (let y = 0; y < s[x].length; y++) {
+      if (s[x][y] !== CELL_EMPTY) cells.push({ x: piece.x + x, y: piece.y + y, cell: s[x][y] });
+    }
+  }
+  return cells;
+}
+
+// Play a game with pseudo-random inputs at frame granularity, including long
+// idle stretches so the timer auto-drops, and return it with its log.
+export function playRecordedGame(seed: number, frames: number, options: StartOptions = {}) {
+  const h = createHeadlessGame({ ...options, seed });
+  const input = new Mulberry32(seed * 31 + 7);
+  let pausedOnce = false;
+  for (let i = 0; i < frames && !h.game.state.isGameOver; i++) {
+    h.tick(16);
+    if (!h.game.state.currentPiece) continue;
+    if (i >= 50 && !pausedOnce) {
+      pausedOnce = true;
+      h.game.pause();
+      h.tick(500);
+      h.game.resume();
+      continue;
+    }
+    const roll = input.next();
+    if (roll < 0.05) h.game.movePiece(input.nextInt(3) - 1, input.nextInt(3) - 1);
+    else if (roll < 0.07) h.game.rotatePiece(roll < 0.06 ? 1 : -1);
+    else if (roll < 0.075) h.game.placePiece();
+    else if (roll < 0.077) h.game.holdPiece();
+  }
+  return h;
+}
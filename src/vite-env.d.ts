@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // base URL of the optional leaderboard server (see server/), e.g. http://localhost:8787
+  readonly VITE_LEADERBOARD_URL?: string;
+}